@@ -1,12 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { AudioRecorder } from './components/AudioRecorder';
 import { MindMapVisualizer } from './components/MindMapVisualizer';
 import { HistoryPanel } from './components/HistoryPanel';
+import { RevisionHistory } from './components/RevisionHistory';
 import { AuthModal } from './components/AuthModal';
-import { generateMindMapFromAudio } from './services/geminiService';
-import { MindMapData, ProcessingStatus } from './types';
-import { saveMap, encodeStateToUrl, decodeStateFromUrl } from './utils/fileUtils';
+import { TextInput } from './components/TextInput';
+import { ProfileManager, getProfileLabel } from './components/ProfileManager';
+import { generateMindMapFromAudio, appendToMindMapFromAudio, generateMindMapFromText, GenerationOptions } from './services/mapProvider';
+import { HistoryItem, MapRevision, MindMapData, ProcessingStatus, RevisionReason } from './types';
+import { encodeStateToUrl, decodeStateFromUrl } from './utils/fileUtils';
+import { saveMap, saveRecording, findSavedMap, isQuotaError } from './utils/mapLibrary';
+import { importMapFile, IMPORT_EXTENSIONS } from './utils/importUtils';
 import { translations, Language } from './utils/translations';
+import { GenerationProfile, getAllProfiles, findProfile, getActiveProfileId, setActiveProfileId, DEFAULT_PROFILE_ID } from './utils/profiles';
 import { User, AuthResponse, logoutUser } from './services/authService';
 
 const USAGE_KEY = 'voicemap_usage_count';
@@ -18,8 +24,20 @@ export default function App() {
   const [mapData, setMapData] = useState<MindMapData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [revisionItem, setRevisionItem] = useState<HistoryItem | null>(null);
   const [isSharing, setIsSharing] = useState(false); 
   const [language, setLanguage] = useState<Language>('zh');
+  const [appendMode, setAppendMode] = useState(true);
+  const [inputMode, setInputMode] = useState<'voice' | 'text'>('voice');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [profiles, setProfiles] = useState<GenerationProfile[]>(() => getAllProfiles());
+  const [profileId, setProfileId] = useState<string>(() => getActiveProfileId());
+  const [isProfileManagerOpen, setIsProfileManagerOpen] = useState(false);
+
+  // Latest edited tree reported by the visualizer (includes manual edits)
+  const currentMapRef = useRef<MindMapData | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Auth State
   const [user, setUser] = useState<User | null>(null);
@@ -72,7 +90,37 @@ export default function App() {
     localStorage.removeItem(USER_KEY);
   };
 
-  const handleRecordingComplete = async (blob: Blob) => {
+  const activeProfile = findProfile(profileId);
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    setActiveProfileId(id);
+  };
+
+  // Saves to the local library and adds a revision; a refused write is reported instead of dropping older maps
+  const persistMap = async (data: MindMapData, reason: RevisionReason = 'save'): Promise<boolean> => {
+    try {
+      await saveMap(data, reason);
+      return true;
+    } catch (err) {
+      console.error("Failed to save map", err);
+      alert(isQuotaError(err) ? t.storage_full : t.save_failed);
+      return false;
+    }
+  };
+
+  // Keeps the source audio so nodes can play back what was said; the map is saved either way
+  const persistRecording = async (id: string, rootId: string, blob: Blob) => {
+    try {
+      await saveRecording(id, rootId, blob);
+    } catch (err) {
+      console.error("Failed to save recording", err);
+      alert(isQuotaError(err) ? t.storage_full : t.recording_save_failed);
+    }
+  };
+
+  // Shared pipeline for every input path: usage limits, generation, auto-save
+  const runGeneration = async (generate: (options: GenerationOptions) => Promise<MindMapData>) => {
     // Check Limits
     if (!user && usageCount >= 1) {
       setAuthMode('signup');
@@ -84,11 +132,29 @@ export default function App() {
 
     setStatus('processing');
     setError(null);
+    setProgress(null);
+
+    // Partial maps replace the view while streaming; keep what was there to restore on cancel
+    const previousMap = currentMapRef.current || mapData;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      const data = await generateMindMapFromAudio(blob);
+      const data = await generate({
+        profile: activeProfile,
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          if (total > 1) setProgress({ completed, total });
+        },
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) setMapData(partial);
+        },
+      });
+      if (controller.signal.aborted) return;
+      currentMapRef.current = data;
       setMapData(data);
       setStatus('success');
-      saveMap(data); // Auto-save new maps
+      persistMap(data, 'generation'); // Auto-save new maps
       
       // Increment Usage if Guest
       if (!user) {
@@ -103,24 +169,95 @@ export default function App() {
         window.location.hash = "";
       }
     } catch (err: any) {
+      if (controller.signal.aborted || err?.name === 'AbortError') {
+        currentMapRef.current = previousMap;
+        setMapData(previousMap);
+        setStatus(previousMap ? 'success' : 'idle');
+        return;
+      }
       console.error(err);
+      currentMapRef.current = previousMap;
+      setMapData(previousMap);
       setStatus('error');
       setError(err.message || 'Failed to generate mind map. Please try again.');
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
-  const handleSaveMap = (data: MindMapData) => {
-      saveMap(data);
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
+  const handleRecordingComplete = (blob: Blob) => runGeneration(async (options) => {
+    const recordingId = crypto.randomUUID();
+    const existing = currentMapRef.current || mapData;
+    const data = appendMode && existing
+      ? await appendToMindMapFromAudio(blob, existing, { ...options, recordingId })
+      : await generateMindMapFromAudio(blob, { ...options, recordingId });
+    if (!options.signal?.aborted) await persistRecording(recordingId, data.root.id, blob);
+    return data;
+  });
+
+  const handleTextSubmit = (text: string) => runGeneration((options) => generateMindMapFromText(text, options));
+
+  const handleSaveMap = (data: MindMapData, reason?: RevisionReason) => persistMap(data, reason);
+
+  const handleMapChange = useCallback((data: MindMapData) => {
+    currentMapRef.current = data;
+  }, []);
+
   const handleRestore = (data: MindMapData) => {
+    currentMapRef.current = data;
     setMapData(data);
     setStatus('success');
   };
 
+  const handleShowRevisions = async () => {
+    const current = currentMapRef.current || mapData;
+    if (!current) return;
+    try {
+      const item = await findSavedMap(current.root.id);
+      if (item) setRevisionItem(item);
+      else alert(t.revisions_not_saved);
+    } catch (err) {
+      console.error("Failed to open version history", err);
+      alert(t.history_load_failed);
+    }
+  };
+
+  // Restoring is itself a new revision, and the current state is snapshotted first so nothing is lost
+  const handleRestoreRevision = async (revision: MapRevision) => {
+    const current = currentMapRef.current;
+    if (current && current.root.id === revision.data.root.id && !(await persistMap(current, 'save'))) return;
+    handleRestore(revision.data);
+    await persistMap(revision.data, 'restore');
+    setRevisionItem(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { data, repairs } = await importMapFile(file);
+      if (repairs.length > 0) {
+        alert(`${t.import_repaired}\n- ${repairs.join('\n- ')}`);
+      }
+      setError(null);
+      handleRestore(data);
+      persistMap(data, 'import');
+    } catch (err: any) {
+      console.error("Import failed", err);
+      setError(`${t.import_failed}: ${err.message}`);
+    }
+  };
+
   const handleShare = async () => {
-    if (!mapData) return;
-    const hash = encodeStateToUrl(mapData);
+    // Share the edited tree, including fold state and cross-links, not the last generated one
+    const current = currentMapRef.current || mapData;
+    if (!current) return;
+    const hash = encodeStateToUrl(current);
     const baseUrl = window.location.href.split('#')[0];
     const url = `${baseUrl}#${hash}`;
     try {
@@ -138,6 +275,7 @@ export default function App() {
   const reset = () => {
     setStatus('idle');
     setMapData(null);
+    currentMapRef.current = null;
     setError(null);
     try {
       window.history.pushState("", document.title, window.location.pathname + window.location.search);
@@ -235,6 +373,9 @@ export default function App() {
                 onExportImage={() => {}} // Handled inside Visualizer via ref
                 onExportMarkdown={() => {}}
                 onSave={handleSaveMap}
+                onMapChange={handleMapChange}
+                onShowRevisions={handleShowRevisions}
+                isGenerating={status === 'processing'}
             />
         ) : (
             // --- LANDING PAGE ---
@@ -265,11 +406,60 @@ export default function App() {
 
                     {/* Action Area */}
                     <div className="w-full max-w-md bg-white rounded-3xl p-8 shadow-xl border border-indigo-50 flex flex-col items-center">
-                         <AudioRecorder 
-                            onRecordingComplete={handleRecordingComplete} 
-                            status={status} 
-                            language={language}
-                        />
+                         {/* Input Mode Tabs */}
+                         <div className="bg-slate-100 rounded-full p-1 flex text-xs mb-6">
+                            {(['voice', 'text'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setInputMode(mode)}
+                                    disabled={status === 'processing'}
+                                    className={`px-4 py-1.5 rounded-full transition-colors ${inputMode === mode ? 'bg-white shadow-sm text-indigo-700 font-medium' : 'text-slate-500 hover:text-slate-700'}`}
+                                >
+                                    {mode === 'voice' ? t.input_voice : t.input_text}
+                                </button>
+                            ))}
+                         </div>
+
+                         {inputMode === 'voice' ? (
+                            <AudioRecorder 
+                                onRecordingComplete={handleRecordingComplete} 
+                                status={status} 
+                                language={language}
+                            />
+                         ) : (
+                            <TextInput 
+                                onSubmit={handleTextSubmit}
+                                status={status}
+                                language={language}
+                            />
+                         )}
+                         <button
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={status === 'processing'}
+                            className="mt-4 text-xs text-slate-400 hover:text-indigo-600 hover:underline transition-colors disabled:opacity-50"
+                         >
+                            {t.import_map}
+                         </button>
+                         <input
+                            ref={importInputRef}
+                            type="file"
+                            accept={[...IMPORT_EXTENSIONS, 'application/json', 'text/markdown', 'text/x-opml'].join(',')}
+                            className="hidden"
+                            onChange={handleImportFile}
+                         />
+                         {status === 'processing' && (
+                            <button
+                               onClick={handleCancelGeneration}
+                               className="mt-3 px-3 py-1 text-xs text-red-500 border border-red-100 rounded-full hover:bg-red-50 transition-colors"
+                            >
+                               {t.cancel}
+                            </button>
+                         )}
+                         {status === 'processing' && progress && (
+                            <div className="mt-3 text-xs text-indigo-500 font-medium">
+                               {t.segment_progress.replace('{done}', String(progress.completed)).replace('{total}', String(progress.total))}
+                            </div>
+                         )}
                          {error && (
                             <div className="mt-4 w-full px-4 py-2 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100 flex items-center justify-center animate-pulse">
                                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
@@ -297,13 +487,27 @@ export default function App() {
                         </div>
                     </div>
 
-                     {/* Use Cases */}
-                     <div className="w-full flex flex-wrap justify-center gap-3">
-                         {[t.case_1, t.case_2, t.case_3, t.case_4].map((txt, i) => (
-                             <span key={i} className="px-4 py-2 bg-slate-100 rounded-full text-sm text-slate-600 border border-slate-200 font-medium">
-                                 {txt}
-                             </span>
-                         ))}
+                     {/* Use Cases / Generation Profiles */}
+                     <div className="w-full flex flex-col items-center gap-3">
+                         <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400">{t.use_cases}</h3>
+                         <div className="w-full flex flex-wrap justify-center gap-3">
+                             {profiles.map(profile => (
+                                 <button
+                                     key={profile.id}
+                                     onClick={() => selectProfile(profile.id)}
+                                     disabled={status === 'processing'}
+                                     className={`px-4 py-2 rounded-full text-sm border font-medium transition-colors ${activeProfile.id === profile.id ? 'bg-indigo-600 text-white border-indigo-600 shadow-md' : 'bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-200'}`}
+                                 >
+                                     {getProfileLabel(profile, language)}
+                                 </button>
+                             ))}
+                             <button
+                                 onClick={() => setIsProfileManagerOpen(true)}
+                                 className="px-4 py-2 rounded-full text-sm border border-dashed border-slate-300 text-slate-500 hover:text-indigo-600 hover:border-indigo-300 transition-colors"
+                             >
+                                 + {t.profile_custom}
+                             </button>
+                         </div>
                      </div>
 
                 </div>
@@ -315,6 +519,29 @@ export default function App() {
         isOpen={isHistoryOpen} 
         onClose={() => setIsHistoryOpen(false)} 
         onRestore={handleRestore} 
+        onShowRevisions={setRevisionItem}
+        language={language}
+      />
+
+      <RevisionHistory
+        item={revisionItem}
+        language={language}
+        onClose={() => setRevisionItem(null)}
+        onRestore={handleRestoreRevision}
+      />
+
+      <ProfileManager
+        isOpen={isProfileManagerOpen}
+        onClose={() => setIsProfileManagerOpen(false)}
+        onSaved={(profile) => {
+          setProfiles(getAllProfiles());
+          selectProfile(profile.id);
+        }}
+        onDeleted={(id) => {
+          setProfiles(getAllProfiles());
+          if (id === profileId) selectProfile(DEFAULT_PROFILE_ID);
+        }}
+        language={language}
       />
 
       <AuthModal 
@@ -355,6 +582,37 @@ export default function App() {
                     />
                  </div>
 
+                 {/* Cancel streaming generation */}
+                 {status === 'processing' && (
+                    <button 
+                     onClick={handleCancelGeneration}
+                     className="flex flex-col items-center justify-center p-2 rounded-xl hover:bg-red-50/50 text-red-500 transition-colors w-16"
+                     title={t.cancel}
+                   >
+                      <div className="p-2 rounded-full bg-red-50 text-red-500 mb-1">
+                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                      </div>
+                      <span className="text-[10px] font-medium truncate w-full text-center">{t.cancel}</span>
+                   </button>
+                 )}
+
+                 {/* Append / Replace Toggle */}
+                 <button 
+                  onClick={() => setAppendMode(prev => !prev)}
+                  disabled={status === 'processing'}
+                  className="flex flex-col items-center justify-center p-2 rounded-xl hover:bg-slate-100/50 text-slate-600 transition-colors w-16 disabled:opacity-50"
+                  title={appendMode ? t.append_mode_desc : t.replace_mode_desc}
+                >
+                   <div className={`p-2 rounded-full ${appendMode ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-100 text-slate-500'} mb-1 transition-colors`}>
+                      {appendMode ? (
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                      ) : (
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                      )}
+                   </div>
+                   <span className="text-[10px] font-medium truncate w-full text-center">{appendMode ? t.append_mode : t.replace_mode}</span>
+                </button>
+
                  {/* Divider */}
                  <div className="w-[1px] h-10 bg-slate-200 mx-1"></div>
 
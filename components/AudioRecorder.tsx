@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ProcessingStatus } from '../types';
 import { translations, Language } from '../utils/translations';
+import { AUDIO_EXTENSIONS } from '../utils/audioUtils';
 
 interface AudioRecorderProps {
   onRecordingComplete: (blob: Blob) => void;
@@ -20,6 +21,7 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const t = translations[language];
 
@@ -36,7 +38,9 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
       };
 
       mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+        // Carry the recorder's real container type (e.g. audio/mp4 on Safari)
+        const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
         onRecordingComplete(blob);
         stream.getTracks().forEach(track => track.stop()); // Stop stream
         cleanupVisualizer();
@@ -71,6 +75,12 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
     }
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onRecordingComplete(file);
+  };
+
   const setupVisualizer = (stream: MediaStream) => {
     if (!canvasRef.current) return;
     
@@ -196,6 +206,24 @@ export const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplet
         )}
       </button>
 
+      {!isRecording && status !== 'processing' && (
+        <>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="mt-4 text-xs text-slate-400 hover:text-indigo-600 hover:underline transition-colors"
+          >
+            {t.upload_audio}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={['audio/*', ...Object.keys(AUDIO_EXTENSIONS).map(ext => `.${ext}`)].join(',')}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </>
+      )}
+
       {isRecording && (
         <div className="mt-4 text-slate-700 font-mono text-xl animate-pulse">
           {formatTime(recordingTime)}
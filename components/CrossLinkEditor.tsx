@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { CrossLink, CrossLinkStyle } from '../types';
+import { CROSS_LINK_COLOR } from '../utils/graphLayout';
+import { translations, Language } from '../utils/translations';
+
+interface CrossLinkEditorProps {
+  link: CrossLink;
+  language: Language;
+  onChange: (patch: Partial<Omit<CrossLink, 'id'>>) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const LINK_STYLES: CrossLinkStyle[] = ['dashed', 'dotted', 'solid'];
+const LINK_COLORS = [CROSS_LINK_COLOR, '#f97316', '#10b981', '#0ea5e9', '#64748b'];
+
+export const CrossLinkEditor: React.FC<CrossLinkEditorProps> = ({ link, language, onChange, onDelete, onClose }) => {
+  const t = translations[language];
+  const [label, setLabel] = useState(link.label || '');
+  const activeStyle = link.style || 'dashed';
+  const activeColor = link.color || CROSS_LINK_COLOR;
+
+  const commitLabel = () => {
+    const next = label.trim();
+    if (next !== (link.label || '')) onChange({ label: next || undefined });
+  };
+
+  return (
+    <div className="flex items-center gap-3 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-200 px-3 py-2">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-purple-500">{t.relationship}</span>
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+          if (e.key === 'Escape') setLabel(link.label || '');
+        }}
+        placeholder={t.relationship_label}
+        className="w-40 text-sm border-b border-slate-200 focus:border-purple-400 outline-none bg-transparent py-0.5"
+      />
+      <div className="flex gap-1">
+        {LINK_STYLES.map(style => (
+          <button
+            key={style}
+            onClick={() => onChange({ style })}
+            title={t[`relationship_${style}` as const]}
+            className={`w-8 h-6 flex items-center justify-center rounded-md ${activeStyle === style ? 'bg-purple-100' : 'hover:bg-slate-100'}`}
+          >
+            <svg width="20" height="4">
+              <line x1="0" y1="2" x2="20" y2="2" stroke="#475569" strokeWidth="2" strokeDasharray={style === 'dashed' ? '5 3' : style === 'dotted' ? '1 3' : undefined} />
+            </svg>
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {LINK_COLORS.map(color => (
+          <button
+            key={color}
+            onClick={() => onChange({ color: color === CROSS_LINK_COLOR ? undefined : color })}
+            className={`w-4 h-4 rounded-full ${activeColor === color ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+      <button onClick={onDelete} title={t.relationship_delete} className="text-slate-400 hover:text-red-500">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+      </button>
+      <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+      </button>
+    </div>
+  );
+};
@@ -28,7 +28,24 @@ const fontFamilies = [
   { id: 'mono', label: 'Mono', class: 'font-mono' },
 ];
 
-const CustomNode = ({ data, selected, id }: NodeProps) => {
+// The fold toggle sits on the side the node's children grow from
+const foldBadgePlacement: Record<Position, string> = {
+  [Position.Right]: '-right-3 top-1/2 -translate-y-1/2',
+  [Position.Left]: '-left-3 top-1/2 -translate-y-1/2',
+  [Position.Bottom]: '-bottom-3 left-1/2 -translate-x-1/2',
+  [Position.Top]: '-top-3 left-1/2 -translate-x-1/2',
+};
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  return h > 0 ? `${h}:${pad(m)}:${pad(total % 60)}` : `${m}:${pad(total % 60)}`;
+};
+
+const CustomNode = ({ data, selected, id, targetPosition = Position.Left, sourcePosition = Position.Right }: NodeProps) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editLabel, setEditLabel] = useState(data.label);
@@ -48,9 +65,15 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
   useEffect(() => {
     if (isEditing && inputRef.current) {
         inputRef.current.focus();
+        inputRef.current.select();
     }
   }, [isEditing]);
 
+  // Rename requests from keyboard shortcuts (F2, or a freshly added node)
+  useEffect(() => {
+    if (data.editRequest) setIsEditing(true);
+  }, [data.editRequest]);
+
   const updateStyle = (patch: any) => {
      data.onDataChange?.(id, { style: { ...data.style, ...patch } });
   };
@@ -60,14 +83,26 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
     data.onDataChange?.(id, { label: editLabel, details: editDetails });
   };
 
+  const handleEditCancel = () => {
+    setIsEditing(false);
+    setEditLabel(data.label);
+    setEditDetails(data.details || '');
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
         handleEditSubmit();
+    } else if (e.key === 'Escape') {
+        handleEditCancel();
     }
   };
 
   const handleAddChild = () => data.onAddChild?.(id);
-  const handleDelete = () => { if (confirm(t.delete + "?")) data.onDelete?.(id); };
+  const handleDelete = () => {
+    const hasChildren = data.hasChildren ?? true;
+    if (!hasChildren || confirm(t.delete_branch_confirm)) data.onDelete?.(id);
+  };
+  const handleDeletePromote = () => data.onDeletePromote?.(id);
 
   const handleEnrichSearch = async () => {
     if (isProcessing) return;
@@ -154,9 +189,16 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
                 <button onClick={handleAddChild} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors" title={t.add_child}>
                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
                 </button>
-                <button onClick={handleDelete} className="p-1.5 hover:bg-red-50 rounded text-red-500 transition-colors" title={t.delete}>
-                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                </button>
+                {!data.isRoot && (
+                    <>
+                        <button onClick={handleDelete} className="p-1.5 hover:bg-red-50 rounded text-red-500 transition-colors" title={t.delete_branch}>
+                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                        </button>
+                        <button onClick={handleDeletePromote} className="p-1.5 hover:bg-red-50 rounded text-red-400 transition-colors" title={t.delete_promote}>
+                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                    </>
+                )}
             </div>
             
             <div className="flex gap-1 border-l border-slate-200 pl-2">
@@ -169,10 +211,36 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
             </div>
         </div>
 
+        {/* Row 5: Branch */}
+        {!data.isRoot && (
+            <div className="flex gap-1 border-t border-slate-100 pt-2">
+                <button onClick={() => data.onMoveSibling?.(id, -1)} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors" title={t.move_up}>
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+                </button>
+                <button onClick={() => data.onMoveSibling?.(id, 1)} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors" title={t.move_down}>
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                </button>
+                <button onClick={() => data.onCut?.(id)} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors" title={t.cut_branch}>
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z" /></svg>
+                </button>
+                <button onClick={() => data.onCopy?.(id)} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors" title={t.copy_branch}>
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                </button>
+                <button onClick={() => data.onPaste?.(id)} disabled={!data.canPaste} className="p-1.5 hover:bg-slate-100 rounded text-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent" title={t.paste_branch}>
+                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
+                </button>
+            </div>
+        )}
+        {data.isRoot && data.canPaste && (
+            <button onClick={() => data.onPaste?.(id)} className="text-xs text-indigo-600 hover:bg-indigo-50 rounded py-1 border-t border-slate-100" title={t.paste_branch}>
+                {t.paste_branch}
+            </button>
+        )}
+
       </NodeToolbar>
 
       <div 
-        className={`px-4 py-3 shadow-md border border-slate-300 min-w-[150px] max-w-[250px] text-center transition-all duration-300 relative group/node ${shapeStyle} ${fontFamilyClass}`}
+        className={`px-4 py-3 shadow-md border border-slate-300 min-w-[150px] max-w-[250px] text-center transition-all duration-300 relative group/node ${shapeStyle} ${fontFamilyClass} ${data.isDropTarget ? 'ring-4 ring-indigo-400' : data.isSourceHighlight ? 'ring-4 ring-amber-300' : ''}`}
         style={{ 
           backgroundColor: data.style?.backgroundColor || '#fff',
         }}
@@ -181,7 +249,7 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
             setIsEditing(true);
         }}
       >
-        <Handle type="target" position={Position.Left} className="!bg-slate-400 !w-2 !h-2" />
+        <Handle type="target" position={targetPosition} className="!bg-slate-400 !w-2 !h-2" />
         
         {isEditing ? (
             <div className="flex flex-col gap-2 w-full min-w-[140px]">
@@ -199,7 +267,10 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
                     className="w-full text-center text-xs text-slate-600 bg-white/50 border border-indigo-200 rounded px-1 outline-none focus:ring-2 focus:ring-indigo-400 resize-none"
                     rows={2}
                     placeholder="Details..."
-                    onKeyDown={(e) => { if(e.key === 'Enter' && e.shiftKey) handleEditSubmit(); }}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && e.shiftKey) handleEditSubmit();
+                        else if (e.key === 'Escape') handleEditCancel();
+                    }}
                 />
                 <button onMouseDown={handleEditSubmit} className="bg-indigo-500 text-white text-[10px] py-1 rounded hover:bg-indigo-600">Save</button>
             </div>
@@ -239,7 +310,38 @@ const CustomNode = ({ data, selected, id }: NodeProps) => {
             </div>
         )}
 
-        <Handle type="source" position={Position.Right} className="!bg-slate-400 !w-2 !h-2" />
+        <Handle type="source" position={sourcePosition} className="!bg-slate-400 !w-2 !h-2" />
+        {/* Two-sided mind map: the root also feeds the branches laid out to its left */}
+        {data.twoSided && <Handle type="source" id="left" position={Position.Left} className="!bg-slate-400 !w-2 !h-2" />}
+
+        {/* Source audio: plays the part of the recording this node came from */}
+        {!isEditing && data.audio?.recordingId && (
+            <button
+                onClick={(e) => { e.stopPropagation(); data.onPlayAudio?.(id); }}
+                onDoubleClick={(e) => e.stopPropagation()}
+                className={`absolute -top-2.5 left-3 h-5 px-1.5 rounded-full border text-[10px] font-mono flex items-center gap-1 shadow-sm transition-colors ${data.isPlaying ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-500 hover:text-indigo-600 hover:border-indigo-300'}`}
+                title={data.isPlaying ? t.stop_audio : t.play_audio}
+            >
+                {data.isPlaying ? (
+                    <svg className="w-2.5 h-2.5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z" /></svg>
+                ) : (
+                    <svg className="w-2.5 h-2.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+                )}
+                {formatTimestamp(data.audio.start)}
+            </button>
+        )}
+
+        {/* Fold toggle: child count when collapsed, minus sign on hover when expanded */}
+        {data.childCount > 0 && (
+            <button
+                onClick={(e) => { e.stopPropagation(); data.onToggleCollapse?.(id); }}
+                onDoubleClick={(e) => e.stopPropagation()}
+                className={`absolute ${foldBadgePlacement[sourcePosition]} min-w-[22px] h-[22px] px-1 rounded-full border text-[10px] font-bold flex items-center justify-center shadow-sm transition-opacity ${data.collapsed ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-500 opacity-0 group-hover/node:opacity-100'}`}
+                title={data.collapsed ? t.expand_branch.replace('{count}', String(data.childCount)) : t.collapse_branch}
+            >
+                {data.collapsed ? data.childCount : '−'}
+            </button>
+        )}
       </div>
     </>
   );
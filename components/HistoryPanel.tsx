@@ -1,19 +1,107 @@
-import React, { useEffect, useState } from 'react';
-import { HistoryItem, MindMapData } from '../types';
-import { getSavedMaps, deleteMap } from '../utils/fileUtils';
-import { translations } from '../utils/translations';
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, HistoryItemMeta, MindMapData } from '../types';
+import { getSavedMaps, deleteMap, deleteMaps, updateMapMeta, getStorageUsage, StorageUsage } from '../utils/mapLibrary';
+import { filterLibrary, collectFolders, collectTags, parseTags, LibrarySort, UNFILED } from '../utils/librarySearch';
+import { downloadFile, generateMapBundle } from '../utils/fileUtils';
+import { translations, Language } from '../utils/translations';
+import { releaseRecordings } from '../utils/audioPlayback';
 
 interface HistoryPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onRestore: (data: MindMapData) => void;
+  onShowRevisions: (item: HistoryItem) => void;
+  language: Language;
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onRestore }) => {
+const SORT_KEY = 'voicemap_library_sort';
+const SORTS: LibrarySort[] = ['recent', 'name', 'size'];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const PIN_PATH = "M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4 1-3z";
+
+interface MetaEditorProps {
+  item: HistoryItem;
+  folders: string[];
+  language: Language;
+  onSave: (patch: HistoryItemMeta) => void;
+  onCancel: () => void;
+}
+
+// Inline folder and tag editor shown inside a map card
+const MetaEditor: React.FC<MetaEditorProps> = ({ item, folders, language, onSave, onCancel }) => {
+  const t = translations[language];
+  const [folder, setFolder] = useState(item.folder || '');
+  const [tags, setTags] = useState((item.tags || []).join(', '));
+
+  const submit = () => onSave({ folder: folder.trim() || undefined, tags: parseTags(tags) });
+  const inputClass = "w-full text-xs border border-slate-200 rounded-md px-2 py-1 outline-none focus:border-indigo-300";
+
+  return (
+    <div
+      className="mt-2 space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit();
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <input
+        value={folder}
+        onChange={(e) => setFolder(e.target.value)}
+        list="voicemap-folders"
+        placeholder={t.library_folder}
+        className={inputClass}
+        autoFocus
+      />
+      <datalist id="voicemap-folders">
+        {folders.map(f => <option key={f} value={f} />)}
+      </datalist>
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder={t.library_tags_placeholder}
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-2 text-xs">
+        <button onClick={onCancel} className="px-2 py-1 text-slate-500 hover:text-slate-700">{t.cancel}</button>
+        <button onClick={submit} className="px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">{t.save}</button>
+      </div>
+    </div>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onRestore, onShowRevisions, language }) => {
+  const t = translations[language];
   const [maps, setMaps] = useState<HistoryItem[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [folder, setFolder] = useState<string | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<LibrarySort>(() => {
+    const stored = localStorage.getItem(SORT_KEY) as LibrarySort | null;
+    return stored && SORTS.includes(stored) ? stored : 'recent';
+  });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
 
-  const loadMaps = () => {
-    setMaps(getSavedMaps());
+  const loadMaps = async () => {
+    try {
+      const [items, storage] = await Promise.all([getSavedMaps(), getStorageUsage()]);
+      setMaps(items);
+      setUsage(storage);
+      // Forget selections of maps that no longer exist
+      setSelected(prev => new Set(items.filter(item => prev.has(item.id)).map(item => item.id)));
+    } catch (e) {
+      console.error("Failed to load saved maps", e);
+      alert(t.history_load_failed);
+    }
   };
 
   useEffect(() => {
@@ -22,63 +110,259 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onR
     }
   }, [isOpen]);
 
-  const handleDelete = (e: React.MouseEvent, id: string) => {
+  const folders = useMemo(() => collectFolders(maps), [maps]);
+  const tags = useMemo(() => collectTags(maps), [maps]);
+  const matches = useMemo(() => filterLibrary(maps, { query, folder, tag }, sort), [maps, query, folder, tag, sort]);
+
+  const handleSort = (next: LibrarySort) => {
+    setSort(next);
+    localStorage.setItem(SORT_KEY, next);
+  };
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (confirm("Are you sure you want to delete this map?")) {
-      deleteMap(id);
+    if (confirm(t.history_delete_confirm)) {
+      try {
+        releaseRecordings(await deleteMap(id));
+      } catch (err) {
+        console.error("Failed to delete map", err);
+        alert(t.history_delete_failed);
+      }
       loadMaps();
     }
   };
 
+  const handleMeta = async (id: string, patch: HistoryItemMeta) => {
+    try {
+      await updateMapMeta(id, patch);
+    } catch (err) {
+      console.error("Failed to update map", err);
+      alert(t.save_failed);
+    }
+    setEditingId(null);
+    loadMaps();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedItems = maps.filter(item => selected.has(item.id));
+  const allVisibleSelected = matches.length > 0 && matches.every(m => selected.has(m.item.id));
+
+  const handleBulkDelete = async () => {
+    if (!confirm(t.library_bulk_delete_confirm.replace('{count}', String(selectedItems.length)))) return;
+    try {
+      releaseRecordings(await deleteMaps(selectedItems.map(item => item.id)));
+      setSelected(new Set());
+    } catch (err) {
+      // Deletes run in one transaction, so the selection still matches what is stored
+      console.error("Failed to delete maps", err);
+      alert(t.library_bulk_delete_failed);
+    }
+    loadMaps();
+  };
+
+  const handleBulkExport = () => {
+    downloadFile(generateMapBundle(selectedItems), `voicemap_maps_${Date.now()}.zip`, 'application/zip');
+  };
+
   if (!isOpen) return null;
 
+  const quotaShare = usage?.usage !== undefined && usage.quota ? usage.usage / usage.quota : null;
+  const selectClass = "flex-1 min-w-0 text-xs border border-slate-200 rounded-md px-1.5 py-1 bg-white text-slate-600 outline-none";
+
   return (
-    <div className="absolute top-0 right-0 h-full w-80 bg-white/95 backdrop-blur-md shadow-2xl z-30 flex flex-col border-l border-slate-200 transform transition-transform duration-300">
-      
+    <div role="dialog" aria-modal="true" className="absolute top-0 right-0 h-full w-96 bg-white/95 backdrop-blur-md shadow-2xl z-30 flex flex-col border-l border-slate-200 transform transition-transform duration-300">
+
       <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-indigo-50/50">
         <h2 className="font-semibold text-slate-800 flex items-center gap-2">
           <svg className="w-5 h-5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
-          My Maps
+          {t.history}
         </h2>
         <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded-full text-slate-500 transition-colors">
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
         </button>
       </div>
 
+      {/* Search & Filters */}
+      <div className="p-3 border-b border-slate-100 space-y-2">
+        <div className="relative">
+          <svg className="w-4 h-4 absolute left-2.5 top-2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.library_search}
+            className="w-full pl-8 pr-2 py-1.5 text-sm border border-slate-200 rounded-lg outline-none focus:border-indigo-300"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select value={folder ?? ''} onChange={(e) => setFolder(e.target.value || null)} className={selectClass} title={t.library_folder}>
+            <option value="">{t.library_all_folders}</option>
+            <option value={UNFILED}>{t.library_unfiled}</option>
+            {folders.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+          <select value={tag ?? ''} onChange={(e) => setTag(e.target.value || null)} className={selectClass} title={t.library_tags}>
+            <option value="">{t.library_all_tags}</option>
+            {tags.map(tg => <option key={tg} value={tg}>#{tg}</option>)}
+          </select>
+          <select value={sort} onChange={(e) => handleSort(e.target.value as LibrarySort)} className={selectClass} title={t.library_sort}>
+            {SORTS.map(s => <option key={s} value={s}>{t[`library_sort_${s}` as const]}</option>)}
+          </select>
+        </div>
+        {maps.length > 0 && (
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={() => setSelected(allVisibleSelected ? new Set() : new Set(matches.map(m => m.item.id)))}
+              title={t.library_select_all}
+            />
+            {selected.size > 0 ? (
+              <>
+                <span>{t.library_selected.replace('{count}', String(selected.size))}</span>
+                <button onClick={handleBulkExport} className="ml-auto px-2 py-0.5 rounded-md text-indigo-600 hover:bg-indigo-50">{t.library_export}</button>
+                <button onClick={handleBulkDelete} className="px-2 py-0.5 rounded-md text-red-600 hover:bg-red-50">{t.library_delete}</button>
+              </>
+            ) : (
+              <span>{t.library_count.replace('{shown}', String(matches.length)).replace('{total}', String(maps.length))}</span>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {maps.length === 0 ? (
-          <div className="text-center text-slate-400 mt-10 text-sm">
-            No maps saved yet.<br/>Generate a map to get started.
+          <div className="text-center text-slate-400 mt-10 text-sm whitespace-pre-line">
+            {t.history_empty}
           </div>
+        ) : matches.length === 0 ? (
+          <div className="text-center text-slate-400 mt-10 text-sm">{t.library_no_results}</div>
         ) : (
-          maps.map((item) => (
-            <div 
+          matches.map(({ item, snippet }) => (
+            <div
               key={item.id}
-              onClick={() => { onRestore(item.data); onClose(); }}
-              className="p-3 bg-white rounded-xl border border-slate-100 shadow-sm hover:shadow-md hover:border-indigo-200 cursor-pointer transition-all group relative"
+              onClick={() => { if (editingId !== item.id) { onRestore(item.data); onClose(); } }}
+              className={`p-3 bg-white rounded-xl border shadow-sm hover:shadow-md cursor-pointer transition-all group relative ${selected.has(item.id) ? 'border-indigo-300' : 'border-slate-100 hover:border-indigo-200'}`}
             >
-              <div className="flex justify-between items-start mb-1 pr-6">
+              <div className="flex items-start gap-2 mb-1 pr-28">
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(item.id)}
+                  className="mt-1"
+                />
+                {item.pinned && (
+                  <svg className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-500" fill="currentColor" viewBox="0 0 24 24"><path d={PIN_PATH} /></svg>
+                )}
                 <span className="font-medium text-slate-800 text-sm truncate w-full">{item.previewLabel}</span>
               </div>
-              <div className="text-xs text-slate-400 font-mono">
-                {new Date(item.timestamp).toLocaleString()}
+              {snippet && (
+                <div className="text-xs text-indigo-600 truncate mb-1">↳ {snippet}</div>
+              )}
+              {(item.folder || (item.tags && item.tags.length > 0)) && (
+                <div className="flex flex-wrap gap-1 mb-1">
+                  {item.folder && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setFolder(item.folder!); }}
+                      className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 text-[10px] hover:bg-slate-200"
+                    >
+                      📁 {item.folder}
+                    </button>
+                  )}
+                  {(item.tags || []).map(tg => (
+                    <button
+                      key={tg}
+                      onClick={(e) => { e.stopPropagation(); setTag(tg); }}
+                      className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[10px] hover:bg-indigo-100"
+                    >
+                      #{tg}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="text-xs text-slate-400 font-mono flex justify-between">
+                <span>{new Date(item.timestamp).toLocaleString()}</span>
+                {item.size !== undefined && <span>{formatBytes(item.size)}</span>}
+              </div>
+
+              {editingId === item.id && (
+                <MetaEditor
+                  item={item}
+                  folders={folders}
+                  language={language}
+                  onSave={(patch) => handleMeta(item.id, patch)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+
+              <div className="absolute top-2 right-2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleMeta(item.id, { pinned: !item.pinned }); }}
+                  className={`p-1.5 rounded-full transition-colors hover:bg-amber-50 ${item.pinned ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                  title={item.pinned ? t.library_unpin : t.library_pin}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={PIN_PATH} /></svg>
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setEditingId(editingId === item.id ? null : item.id); }}
+                  className="p-1.5 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-full transition-colors"
+                  title={t.library_edit_meta}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onShowRevisions(item); }}
+                  className="p-1.5 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-full transition-colors"
+                  title={t.revisions_title}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                </button>
+                <button
+                  onClick={(e) => handleDelete(e, item.id)}
+                  className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                  title={t.history_delete}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </button>
               </div>
-              
-              <button 
-                onClick={(e) => handleDelete(e, item.id)}
-                className="absolute top-2 right-2 p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors opacity-0 group-hover:opacity-100"
-                title="Delete Map"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-              </button>
             </div>
           ))
         )}
       </div>
 
-      <div className="p-4 bg-slate-50 border-t border-slate-200 text-xs text-slate-400 text-center">
-        Maps are stored locally in your browser.
+      <div className="p-4 bg-slate-50 border-t border-slate-200 text-xs text-slate-400 space-y-2">
+        {usage && (
+          <>
+            <div className="flex justify-between text-slate-500">
+              <span>{t.storage_maps.replace('{count}', String(usage.mapCount)).replace('{revisions}', String(usage.revisionCount))}</span>
+              <span>{formatBytes(usage.librarySize)}</span>
+            </div>
+            {quotaShare !== null && (
+              <div>
+                <div className="h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                  <div
+                    className={`h-full ${quotaShare > 0.9 ? 'bg-red-500' : 'bg-indigo-400'}`}
+                    style={{ width: `${Math.max(1, Math.min(100, quotaShare * 100))}%` }}
+                  ></div>
+                </div>
+                <div className="mt-1">
+                  {t.storage_quota.replace('{used}', formatBytes(usage.usage!)).replace('{quota}', formatBytes(usage.quota!))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        <div className="text-center">
+          {usage?.persisted ? t.storage_persisted : t.storage_local}
+        </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
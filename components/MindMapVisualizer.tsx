@@ -11,20 +11,55 @@ import ReactFlow, {
   ReactFlowProvider,
   useReactFlow,
   Panel,
+  Connection,
+  Position,
+  XYPosition,
 } from 'reactflow';
 import CustomNode from './CustomNode';
-import { getLayoutedElements, reconstructTreeFromFlow } from '../utils/graphLayout';
-import { MindMapData, FlowNode } from '../types';
-import { enrichWithGoogleSearch, enrichWithGoogleMaps } from '../services/geminiService';
+import { getLayoutedElements, LayoutType, NodeSizes } from '../utils/graphLayout';
+import { MindMapData, MindMapNode, FlowNode, CrossLink, RevisionReason } from '../types';
+import { enrichWithGoogleSearch, enrichWithGoogleMaps, EnrichmentResult } from '../services/mapProvider';
 import { Language, translations } from '../utils/translations';
 import { downloadImage, generateMarkdown, generateMermaid, downloadFile } from '../utils/fileUtils';
+import type { PdfLayout } from '../utils/vectorExport';
+import { createCommandHistory } from '../utils/commandHistory';
+import { MapCommand, updateNodeCommand, treeEditCommand } from '../utils/mapCommands';
+import { deleteSubtree, deleteAndPromote, moveNode, reorderSibling, insertSubtree, findNode, findParent, withFreshIds, cloneTree, toggleCollapsed, expandToLevel, hasCollapsed, indentNode, outdentNode, addCrossLink, updateCrossLink, removeCrossLink, revealNode } from '../utils/treeUtils';
+import { ShortcutSheet } from './ShortcutSheet';
+import { OutlineView } from './OutlineView';
+import { CrossLinkEditor } from './CrossLinkEditor';
+import { TranscriptPanel } from './TranscriptPanel';
+import { playAudioSpan, stopAudio } from '../utils/audioPlayback';
+
+// --- Keyboard Scope ---
+
+const isTextField = (el: HTMLElement) =>
+  el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable;
+
+/**
+ * Map shortcuts apply while focus is on the canvas, in the outline or on nothing in particular.
+ * They are ignored while typing, while a dialog (`aria-modal`) covers the map, and while focus is
+ * on other controls such as the toolbar or a side panel.
+ */
+const isMapShortcutEvent = (e: KeyboardEvent, scopes: (Element | null | undefined)[]): boolean => {
+  if (document.querySelector('[aria-modal="true"]')) return false;
+  const target = e.target as HTMLElement | null;
+  if (!target || target === document.body) return true;
+  if (isTextField(target)) return false;
+  return scopes.some(scope => scope?.contains(target));
+};
 
 interface MindMapVisualizerProps {
   data: MindMapData | null;
   language: Language;
   onExportImage: () => void;
   onExportMarkdown: () => void;
-  onSave: (data: MindMapData) => void;
+  // Resolves to false when the map could not be stored
+  onSave: (data: MindMapData, reason?: RevisionReason) => Promise<boolean>;
+  onMapChange?: (data: MindMapData) => void;
+  onShowRevisions?: () => void;
+  // True while a generation streams partial maps into `data`
+  isGenerating?: boolean;
 }
 
 export const MindMapVisualizer: React.FC<MindMapVisualizerProps> = (props) => {
@@ -35,61 +70,245 @@ export const MindMapVisualizer: React.FC<MindMapVisualizerProps> = (props) => {
     )
 }
 
-const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, language, onSave }) => {
+const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, language, onSave, onMapChange, onShowRevisions, isGenerating = false }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [layoutType, setLayoutType] = useState<'LR' | 'TB' | 'Radial'>('LR');
+  const [layoutType, setLayoutType] = useState<LayoutType>('LR');
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
-  const { fitView } = useReactFlow();
+  const { fitView, getIntersectingNodes } = useReactFlow();
   const flowWrapperRef = useRef<HTMLDivElement>(null);
-  
-  // Keep track of the root ID to help reconstruction
-  const rootIdRef = useRef<string | null>(data?.root.id || null);
+  const outlineRef = useRef<HTMLDivElement>(null);
 
+  const isMapShortcut = useCallback((e: KeyboardEvent) => isMapShortcutEvent(e, [
+    flowWrapperRef.current?.querySelector('.react-flow__renderer'),
+    outlineRef.current,
+  ]), []);
+  
   const t = translations[language];
 
+  // --- Canonical Tree ---
+  // The MindMapData tree is the source of truth; React Flow nodes/edges are derived from it.
+
+  const [tree, setTree] = useState<MindMapData | null>(data);
+  const treeRef = useRef<MindMapData | null>(data);
+  treeRef.current = tree;
+
+  // --- Undo / Redo ---
+
+  const historyRef = useRef(createCommandHistory<MindMapData>());
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const syncHistoryState = useCallback(() => {
+    setCanUndo(historyRef.current.canUndo());
+    setCanRedo(historyRef.current.canRedo());
+  }, []);
+
+  const commitTree = useCallback((next: MindMapData) => {
+    treeRef.current = next;
+    setTree(next);
+    syncHistoryState();
+  }, [syncHistoryState]);
+
+  const execute = useCallback((command: MapCommand | null) => {
+    if (!command || !treeRef.current) return;
+    commitTree(historyRef.current.execute(command, treeRef.current));
+  }, [commitTree]);
+
+  const handleUndo = useCallback(() => {
+    if (!treeRef.current) return;
+    const result = historyRef.current.undo(treeRef.current);
+    if (result) commitTree(result.state);
+  }, [commitTree]);
+
+  const handleRedo = useCallback(() => {
+    if (!treeRef.current) return;
+    const result = historyRef.current.redo(treeRef.current);
+    if (result) commitTree(result.state);
+  }, [commitTree]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Undo also works right after clicking a toolbar button on the canvas
+      if (!(e.ctrlKey || e.metaKey) || !isMapShortcutEvent(e, [flowWrapperRef.current, outlineRef.current])) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   // --- Unified Handler ---
   
   const onDataChange = useCallback((id: string, patch: Partial<FlowNode['data']>) => {
-    setNodes((nds) => nds.map((n) => {
-      if (n.id === id) {
-        return { 
-          ...n, 
-          data: { ...n.data, ...patch } 
-        };
-      }
-      return n;
-    }));
-  }, [setNodes]);
+    if (!treeRef.current) return;
+    const label = 'style' in patch ? 'Change style' : 'Edit node';
+    execute(updateNodeCommand(treeRef.current, id, patch as Partial<MindMapNode>, label));
+  }, [execute]);
+
+  // --- Branch Operations ---
+
+  const editTree = useCallback((edit: (tree: MindMapData) => MindMapData, label: string) => {
+      if (!treeRef.current) return;
+      execute(treeEditCommand(treeRef.current, edit, label));
+  }, [execute]);
 
   const onDeleteNode = useCallback((id: string) => {
-      setNodes((nds) => nds.filter((n) => n.id !== id));
-      setEdges((eds) => eds.filter((e) => e.source !== id && e.target !== id));
-  }, [setNodes, setEdges]);
+      editTree(tree => deleteSubtree(tree, id), 'Delete branch');
+  }, [editTree]);
+
+  const onDeletePromote = useCallback((id: string) => {
+      editTree(tree => deleteAndPromote(tree, id), 'Delete node, keep children');
+  }, [editTree]);
+
+  const onMoveSibling = useCallback((id: string, offset: number) => {
+      editTree(tree => reorderSibling(tree, id, offset), 'Reorder');
+  }, [editTree]);
+
+  // --- Folding ---
+
+  const onToggleCollapse = useCallback((id: string) => {
+      editTree(tree => toggleCollapsed(tree, id), 'Toggle branch');
+  }, [editTree]);
+
+  const handleExpandToLevel = (level: number) => {
+      editTree(tree => expandToLevel(tree, level), level === Infinity ? 'Expand all' : `Expand to level ${level}`);
+      setTimeout(() => fitView(), 100);
+  };
+
+  const clipboardRef = useRef<MindMapNode | null>(null);
+  const [hasClipboard, setHasClipboard] = useState(false);
+
+  const onCopyBranch = useCallback((id: string) => {
+      const branch = treeRef.current && findNode(treeRef.current.root, id);
+      if (!branch) return;
+      clipboardRef.current = cloneTree(branch);
+      setHasClipboard(true);
+  }, []);
+
+  const onCutBranch = useCallback((id: string) => {
+      if (id === treeRef.current?.root.id) return;
+      onCopyBranch(id);
+      editTree(tree => deleteSubtree(tree, id), 'Cut branch');
+  }, [onCopyBranch, editTree]);
+
+  // Pasted branches get fresh IDs so the same clipboard can be pasted repeatedly
+  const onPasteBranch = useCallback((parentId: string) => {
+      const branch = clipboardRef.current;
+      if (!branch) return;
+      editTree(tree => insertSubtree(tree, parentId, withFreshIds(branch)), 'Paste branch');
+  }, [editTree]);
+
+  // Latest flow nodes for keyboard handlers that run outside React's update cycle
+  const nodesRef = useRef<Node[]>(nodes);
+  nodesRef.current = nodes;
+
+  // Ctrl+X / Ctrl+C / Ctrl+V act on the selected node
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || !isMapShortcut(e)) return;
+      const selected = nodesRef.current.find(n => n.selected);
+      if (!selected) return;
+      const key = e.key.toLowerCase();
+      if (key === 'x') onCutBranch(selected.id);
+      else if (key === 'c') onCopyBranch(selected.id);
+      else if (key === 'v') onPasteBranch(selected.id);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCutBranch, onCopyBranch, onPasteBranch, isMapShortcut]);
+
+  // --- Layout Measurement & Manual Positions ---
+  // The layout is re-run whenever React Flow reports a node size that differs from the one it was
+  // laid out with. Nodes the user dragged keep their position until the layout changes or the
+  // user asks for a re-layout.
+
+  const sizesRef = useRef<NodeSizes>(new Map());
+  const manualPositionsRef = useRef(new Map<string, XYPosition>());
+  const [layoutRevision, setLayoutRevision] = useState(0);
+
+  useEffect(() => {
+    let changed = false;
+    nodes.forEach(n => {
+      if (!n.width || !n.height) return;
+      const known = sizesRef.current.get(n.id);
+      if (known && Math.abs(known.width - n.width) < 1 && Math.abs(known.height - n.height) < 1) return;
+      sizesRef.current.set(n.id, { width: n.width, height: n.height });
+      changed = true;
+    });
+    if (changed) setLayoutRevision(r => r + 1);
+  }, [nodes]);
+
+  const handleRelayout = useCallback(() => {
+      manualPositionsRef.current.clear();
+      setLayoutRevision(r => r + 1);
+      setTimeout(() => fitView({ duration: 300 }), 50);
+  }, [fitView]);
+
+  // Dropping a node onto another one makes it a child of that node
+  const dropTargetRef = useRef<string | null>(null);
+
+  const highlightDropTarget = useCallback((targetId: string | null) => {
+      if (dropTargetRef.current === targetId) return;
+      dropTargetRef.current = targetId;
+      setNodes(nds => nds.map(n => {
+          const isDropTarget = n.id === targetId;
+          return n.data.isDropTarget === isDropTarget ? n : { ...n, data: { ...n.data, isDropTarget } };
+      }));
+  }, [setNodes]);
+
+  const findDropTarget = useCallback((node: Node) => {
+      return getIntersectingNodes(node).find(n => n.id !== node.id) || null;
+  }, [getIntersectingNodes]);
+
+  const onNodeDrag = useCallback((_: React.MouseEvent, node: Node) => {
+      highlightDropTarget(findDropTarget(node)?.id || null);
+  }, [findDropTarget, highlightDropTarget]);
+
+  const onNodeDragStop = useCallback((_: React.MouseEvent, node: Node, dragged: Node[]) => {
+      highlightDropTarget(null);
+      const target = findDropTarget(node);
+      if (target) {
+          // A reparented branch is placed by the layout under its new parent
+          manualPositionsRef.current.delete(node.id);
+          editTree(tree => moveNode(tree, node.id, target.id), 'Move branch');
+          return;
+      }
+      (dragged.length > 0 ? dragged : [node]).forEach(n => manualPositionsRef.current.set(n.id, n.position));
+  }, [findDropTarget, highlightDropTarget, editTree]);
+
+  // Appends enrichment results to the node as a single undoable edit
+  const appendEnrichment = useCallback((id: string, prefix: string, result: EnrichmentResult) => {
+      const node = treeRef.current && findNode(treeRef.current.root, id);
+      if (!node || !treeRef.current) return;
+      const existingDetails = node.details ? node.details + '\n\n' : '';
+      const existingLinks = node.links || [];
+      execute(updateNodeCommand(treeRef.current, id, {
+          details: existingDetails + prefix + result.text,
+          links: [...existingLinks, ...result.links],
+      }, 'Enrich node'));
+      // Enrichment pulls in outside content, so it is snapshotted as its own revision
+      if (treeRef.current) onSave(treeRef.current, 'enrichment');
+  }, [execute, onSave]);
 
   const onEnrichSearch = useCallback(async (id: string, label: string) => {
       try {
           const result = await enrichWithGoogleSearch(label);
-          setNodes((nds) => nds.map((n) => {
-              if (n.id === id) {
-                  const existingDetails = n.data.details ? n.data.details + '\n\n' : '';
-                  const existingLinks = n.data.links || [];
-                  return { 
-                      ...n, 
-                      data: { 
-                          ...n.data, 
-                          details: existingDetails + "[Search]: " + result.text,
-                          links: [...existingLinks, ...result.links]
-                      } 
-                  };
-              }
-              return n;
-          }));
+          appendEnrichment(id, "[Search]: ", result);
       } catch (error) {
           alert("Failed to fetch search data. Please check API Key configuration.");
       }
-  }, [setNodes]);
+  }, [appendEnrichment]);
 
   const onEnrichMaps = useCallback(async (id: string, label: string) => {
     try {
@@ -104,55 +323,285 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
         }
 
         const result = await enrichWithGoogleMaps(label, location);
-        setNodes((nds) => nds.map((n) => {
-            if (n.id === id) {
-                const existingDetails = n.data.details ? n.data.details + '\n\n' : '';
-                const existingLinks = n.data.links || [];
-                return { 
-                    ...n, 
-                    data: { 
-                        ...n.data, 
-                        details: existingDetails + "[Maps]: " + result.text,
-                        links: [...existingLinks, ...result.links]
-                    } 
-                };
-            }
-            return n;
-        }));
+        appendEnrichment(id, "[Maps]: ", result);
     } catch (error) {
         alert("Failed to fetch maps data.");
     }
-}, [setNodes]);
+}, [appendEnrichment]);
 
-  const onAddChild = useCallback((parentId: string) => {
-      const newId = crypto.randomUUID();
-      const newNode: Node = {
-          id: newId,
-          type: 'custom',
-          position: { x: 0, y: 0 },
-          data: { 
-              label: 'New Idea', 
-              category: 'idea',
-              createdAt: Date.now(),
+  // --- Source Audio ---
+
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const playingIdRef = useRef<string | null>(null);
+  const setPlaying = (id: string | null) => {
+      playingIdRef.current = id;
+      setPlayingId(id);
+  };
+
+  // Plays the part of the recording a node came from; clicking the playing node stops it
+  const onPlayAudio = useCallback(async (id: string) => {
+      if (playingIdRef.current === id) {
+          stopAudio();
+          return;
+      }
+      const span = treeRef.current && findNode(treeRef.current.root, id)?.audio;
+      if (!span) return;
+      setPlaying(id);
+      const finished = () => { if (playingIdRef.current === id) setPlaying(null); };
+      try {
+          if (!(await playAudioSpan(span, finished))) {
+              finished();
+              alert(t.audio_unavailable);
           }
-      };
+      } catch (error) {
+          console.error("Audio playback failed", error);
+          finished();
+      }
+  }, [t]);
+
+  useEffect(() => {
+      setNodes(nds => nds.map(n => {
+          const isPlaying = n.id === playingId;
+          return !!n.data.isPlaying === isPlaying ? n : { ...n, data: { ...n.data, isPlaying } };
+      }));
+  }, [playingId, setNodes]);
+
+  useEffect(() => stopAudio, []);
+
+  // Node to select (and optionally rename) once the next flow view has been derived
+  const pendingFocusRef = useRef<{ id: string; edit: boolean } | null>(null);
 
-      const newEdge: Edge = {
-          id: `e${parentId}-${newId}`,
-          source: parentId,
-          target: newId,
-          type: 'smoothstep',
-          animated: true,
-          style: { stroke: '#94a3b8', strokeWidth: 2 },
+  const insertNewNode = useCallback((parentId: string, index?: number, focus?: 'select' | 'edit') => {
+      const child: MindMapNode = {
+          id: crypto.randomUUID(),
+          label: 'New Idea',
+          category: 'idea',
+          createdAt: Date.now(),
+          children: [],
       };
+      if (focus) pendingFocusRef.current = { id: child.id, edit: focus === 'edit' };
+      editTree(tree => insertSubtree(tree, parentId, child, index), 'Add node');
+  }, [editTree]);
+
+  const onAddChild = useCallback((parentId: string) => {
+      insertNewNode(parentId);
+  }, [insertNewNode]);
+
+
+  // --- Keyboard Editing ---
+
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  const selectNode = useCallback((id: string, edit = false) => {
+      setNodes(nds => nds.map(n => {
+          const selected = n.id === id;
+          if (selected && edit) return { ...n, selected, data: { ...n.data, editRequest: Date.now() } };
+          return n.selected === selected ? n : { ...n, selected };
+      }));
+  }, [setNodes]);
+
+  // Arrow keys follow the tree; which arrow means "parent" depends on the layout direction
+  const navigate = useCallback((id: string, direction: 'parent' | 'child' | 'prev' | 'next') => {
+      const current = treeRef.current;
+      if (!current) return;
+      if (direction === 'child') {
+          const node = findNode(current.root, id);
+          const first = node?.children?.[0];
+          if (!node || !first) return;
+          if (node.collapsed) {
+              pendingFocusRef.current = { id: first.id, edit: false };
+              editTree(tree => toggleCollapsed(tree, id), 'Toggle branch');
+          } else {
+              selectNode(first.id);
+          }
+          return;
+      }
+      const location = findParent(current.root, id);
+      if (!location) return;
+      if (direction === 'parent') {
+          selectNode(location.parent.id);
+          return;
+      }
+      const sibling = location.parent.children![location.index + (direction === 'next' ? 1 : -1)];
+      if (sibling) selectNode(sibling.id);
+  }, [editTree, selectNode]);
+
+  useEffect(() => {
+    const arrowDirections: Record<string, Record<string, 'parent' | 'child' | 'prev' | 'next'>> = {
+      horizontal: { ArrowLeft: 'parent', ArrowRight: 'child', ArrowUp: 'prev', ArrowDown: 'next' },
+      mirrored: { ArrowRight: 'parent', ArrowLeft: 'child', ArrowUp: 'prev', ArrowDown: 'next' },
+      vertical: { ArrowUp: 'parent', ArrowDown: 'child', ArrowLeft: 'prev', ArrowRight: 'next' },
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey) return;
+      // The cheat sheet is a dialog itself, so its own keys are handled before the scope check
+      if (showShortcuts && (e.key === '?' || e.key === 'Escape')) {
+        e.preventDefault();
+        setShowShortcuts(false);
+        return;
+      }
+      if (!isMapShortcut(e)) return;
+      // Focused buttons keep their native Enter / Space activation
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === 'BUTTON' && (e.key === 'Enter' || e.key === ' ')) return;
+
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(true);
+        return;
+      }
+
+      const current = treeRef.current;
+      if (!current) return;
+      const selected = nodesRef.current.find(n => n.selected);
+      if (!selected) {
+        // Any navigation key starts at the root
+        if (e.key.startsWith('Arrow')) {
+          e.preventDefault();
+          selectNode(current.root.id);
+        }
+        return;
+      }
+      const id = selected.id;
+      const isRoot = id === current.root.id;
+      // Branches on the left of a two-sided map grow leftwards, so the arrows flip with them
+      const directions = arrowDirections[
+        selected.targetPosition === Position.Right ? 'mirrored'
+        : layoutType === 'TB' || layoutType === 'OrgChart' ? 'vertical'
+        : 'horizontal'
+      ];
+
+      if (e.altKey && directions[e.key]) {
+        e.preventDefault();
+        const direction = directions[e.key];
+        if (direction === 'prev') onMoveSibling(id, -1);
+        else if (direction === 'next') onMoveSibling(id, 1);
+        else if (direction === 'parent') editTree(tree => outdentNode(tree, id), 'Outdent');
+        else editTree(tree => indentNode(tree, id), 'Indent');
+        return;
+      }
+
+      switch (e.key) {
+        case 'Tab':
+          e.preventDefault();
+          insertNewNode(id, undefined, 'edit');
+          break;
+        case 'Enter': {
+          e.preventDefault();
+          const location = findParent(current.root, id);
+          if (location) insertNewNode(location.parent.id, location.index + 1, 'edit');
+          else insertNewNode(id, undefined, 'edit');
+          break;
+        }
+        case 'F2':
+          e.preventDefault();
+          selectNode(id, true);
+          break;
+        case 'Delete':
+        case 'Backspace': {
+          if (isRoot) return;
+          e.preventDefault();
+          const location = findParent(current.root, id);
+          if (e.shiftKey) onDeletePromote(id);
+          else if (!findNode(current.root, id)?.children?.length || confirm(t.delete_branch_confirm)) onDeleteNode(id);
+          else return;
+          if (location) pendingFocusRef.current = { id: location.parent.id, edit: false };
+          break;
+        }
+        case ' ':
+          e.preventDefault();
+          onToggleCollapse(id);
+          break;
+        default:
+          if (directions[e.key]) {
+            e.preventDefault();
+            navigate(id, directions[e.key]);
+          }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [layoutType, t, selectNode, navigate, insertNewNode, editTree, onMoveSibling, onDeleteNode, onDeletePromote, onToggleCollapse, showShortcuts, isMapShortcut]);
 
-      setNodes((nds) => [...nds, newNode]);
-      setEdges((eds) => [...eds, newEdge]);
-  }, [setNodes, setEdges]);
+
+  // --- Cross-Links ---
+  // Dragging from a node's right handle onto another node creates a relationship;
+  // clicking a relationship edge opens its editor.
+
+  const [selectedLinkId, setSelectedLinkId] = useState<string | null>(null);
+  const selectedLink: CrossLink | undefined = tree?.crossLinks?.find(l => l.id === selectedLinkId);
+
+  const onConnect = useCallback((connection: Connection) => {
+      const { source, target } = connection;
+      if (!source || !target) return;
+      editTree(tree => addCrossLink(tree, source, target), 'Add relationship');
+  }, [editTree]);
+
+  const onEdgeClick = useCallback((_: React.MouseEvent, edge: Edge) => {
+      setSelectedLinkId(edge.data?.crossLinkId || null);
+  }, []);
+
+  const handleLinkUpdate = (patch: Partial<Omit<CrossLink, 'id'>>) => {
+      if (!selectedLinkId) return;
+      editTree(tree => updateCrossLink(tree, selectedLinkId, patch), 'Edit relationship');
+  };
+
+  const handleLinkDelete = () => {
+      if (!selectedLinkId) return;
+      editTree(tree => removeCrossLink(tree, selectedLinkId), 'Delete relationship');
+      setSelectedLinkId(null);
+  };
+
+  // --- Outline View ---
+
+  const [showOutline, setShowOutline] = useState(false);
+  const selectedId = useMemo(() => nodes.find(n => n.selected)?.id || null, [nodes]);
+
+  const handleOutlineUpdate = useCallback((id: string, patch: Partial<MindMapNode>) => {
+      if (!treeRef.current) return;
+      execute(updateNodeCommand(treeRef.current, id, patch, 'Edit node'));
+  }, [execute]);
+
+  const handleOutlineAddSibling = useCallback((id: string) => {
+      const location = treeRef.current && findParent(treeRef.current.root, id);
+      if (location) insertNewNode(location.parent.id, location.index + 1, 'select');
+      else insertNewNode(id, undefined, 'select');
+  }, [insertNewNode]);
+
+
+  // --- Transcript ---
+
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [hoveredSentenceId, setHoveredSentenceId] = useState<string | null>(null);
+
+  // Nodes derived from the sentence hovered in the transcript light up on the canvas
+  useEffect(() => {
+      setNodes(nds => nds.map(n => {
+          const isSourceHighlight = !!hoveredSentenceId && !!n.data.sentenceIds?.includes(hoveredSentenceId);
+          return !!n.data.isSourceHighlight === isSourceHighlight ? n : { ...n, data: { ...n.data, isSourceHighlight } };
+      }));
+  }, [hoveredSentenceId, setNodes]);
+
+  // Selects a node from the transcript, unfolding its branch and bringing it into view
+  const focusNode = useCallback((id: string) => {
+      const current = treeRef.current;
+      if (!current) return;
+      const revealed = revealNode(current, id);
+      if (revealed !== current) {
+          pendingFocusRef.current = { id, edit: false };
+          editTree(() => revealed, 'Toggle branch');
+      } else {
+          selectNode(id);
+      }
+      setTimeout(() => fitView({ nodes: [{ id }], duration: 300, maxZoom: 1 }), 100);
+  }, [editTree, selectNode, fitView]);
 
 
   // Helper to attach handlers
-  const attachHandlers = useCallback((nodesList: Node[]) => {
+  const attachHandlers = useCallback((nodesList: Node[], edgesList: Edge[]) => {
+      const parentIds = new Set(edgesList.filter(e => !e.data?.crossLinkId).map(e => e.source));
       return nodesList.map(n => ({
         ...n,
         data: {
@@ -160,31 +609,112 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
           language,
           onDataChange: onDataChange, // Unified update handler
           onDelete: onDeleteNode,
+          onDeletePromote: onDeletePromote,
+          onToggleCollapse: onToggleCollapse,
+          onMoveSibling: onMoveSibling,
+          onCut: onCutBranch,
+          onCopy: onCopyBranch,
+          onPaste: onPasteBranch,
+          canPaste: hasClipboard,
+          isRoot: n.id === treeRef.current?.root.id,
+          hasChildren: parentIds.has(n.id),
           onAddChild: onAddChild,
           onEnrichSearch: onEnrichSearch,
-          onEnrichMaps: onEnrichMaps
+          onEnrichMaps: onEnrichMaps,
+          onPlayAudio: onPlayAudio,
+          isPlaying: n.id === playingIdRef.current
         }
       }));
-  }, [language, onDataChange, onDeleteNode, onAddChild, onEnrichSearch, onEnrichMaps]);
+  }, [language, onDataChange, onDeleteNode, onDeletePromote, onToggleCollapse, onMoveSibling, onCutBranch, onCopyBranch, onPasteBranch, hasClipboard, onAddChild, onEnrichSearch, onEnrichMaps, onPlayAudio]);
+
 
+  // Load Data. A different map (new root) starts a fresh undo history and layout. Appends and
+  // restores of the open map become one undoable step; partial maps streamed in while generating
+  // are shown as they arrive and folded into that step once the generation ends.
+  const loadedRootIdRef = useRef<string | null>(null);
+  // Tree before the current generation started; null while a brand new map is streaming in
+  const generationBaseRef = useRef<MindMapData | null | undefined>(undefined);
+  const loadedDataRef = useRef<MindMapData | null | undefined>(undefined);
 
-  // Load Data & Layout
   useEffect(() => {
-    if (data) {
-      rootIdRef.current = data.root.id;
-      const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(data, layoutType);
-      
-      // Attach handlers IMMEDIATELY to avoid race conditions
-      setNodes(attachHandlers(layoutedNodes));
-      setEdges(layoutedEdges);
-      setTimeout(() => fitView(), 100);
+    if (data === loadedDataRef.current) {
+      // Only the generation state changed; a generation that produced nothing leaves no base behind
+      if (!isGenerating) generationBaseRef.current = undefined;
+      return;
     }
-  }, [data, layoutType, attachHandlers, setNodes, setEdges, fitView]);
+    loadedDataRef.current = data;
+    stopAudio();
+    const previous = treeRef.current;
 
-  // Keep handlers up to date when dependencies change (e.g. language)
+    if (!data || !previous || data.root.id !== loadedRootIdRef.current) {
+      loadedRootIdRef.current = data?.root.id ?? null;
+      generationBaseRef.current = isGenerating ? null : undefined;
+      treeRef.current = data;
+      setTree(data);
+      manualPositionsRef.current.clear();
+      sizesRef.current.clear();
+      historyRef.current.clear();
+      syncHistoryState();
+      return;
+    }
+
+    if (isGenerating) {
+      if (generationBaseRef.current === undefined) generationBaseRef.current = previous;
+      treeRef.current = data;
+      setTree(data);
+      return;
+    }
+
+    const base = generationBaseRef.current === undefined ? previous : generationBaseRef.current;
+    generationBaseRef.current = undefined;
+    const command = base && treeEditCommand(base, () => data, 'Update map');
+    if (command) execute(command);
+    else commitTree(data);
+  }, [data, isGenerating, syncHistoryState, execute, commitTree]);
+
+  // Derive the flow view from the tree with the measured node sizes. Manual positions are
+  // specific to one layout, so switching layouts drops them.
+  const layoutTypeRef = useRef(layoutType);
+  useEffect(() => {
+    if (!tree) return;
+    if (layoutTypeRef.current !== layoutType) {
+      layoutTypeRef.current = layoutType;
+      manualPositionsRef.current.clear();
+    }
+    const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(tree, layoutType, sizesRef.current);
+    const manual = manualPositionsRef.current;
+
+    const pending = pendingFocusRef.current && layoutedNodes.some(n => n.id === pendingFocusRef.current!.id)
+      ? pendingFocusRef.current
+      : null;
+    if (pending) pendingFocusRef.current = null;
+
+    setNodes(previous => {
+      const existing = new Map<string, Node>(previous.map(n => [n.id, n]));
+      return attachHandlers(layoutedNodes, layoutedEdges).map(n => {
+        const old = existing.get(n.id);
+        const position = manual.get(n.id);
+        const merged = {
+          ...n,
+          // Keep React Flow's measurements so sizes are not reported as new after every edit
+          ...(old ? { selected: old.selected, style: old.style, width: old.width, height: old.height } : {}),
+          ...(position ? { position } : {}),
+        };
+        if (!pending) return merged;
+        return {
+          ...merged,
+          selected: n.id === pending.id,
+          ...(n.id === pending.id && pending.edit ? { data: { ...merged.data, editRequest: Date.now() } } : {}),
+        };
+      });
+    });
+    setEdges(layoutedEdges);
+  }, [tree, layoutType, layoutRevision, attachHandlers, setNodes, setEdges]);
+
+  // Fit the view when a different map is loaded or the layout changes
   useEffect(() => {
-    setNodes(nds => attachHandlers(nds));
-  }, [attachHandlers, setNodes]);
+    if (data) setTimeout(() => fitView(), 100);
+  }, [data, layoutType, fitView]);
 
 
   // Search Effect
@@ -198,18 +728,19 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
     );
   }, [searchTerm, setNodes]);
 
+  // Report the edited tree upwards so new recordings can be appended to it
+  useEffect(() => {
+    if (onMapChange && tree && tree !== data) onMapChange(tree);
+  }, [tree, data, onMapChange]);
+
   const nodeTypes = useMemo(() => ({ custom: CustomNode }), []); 
 
   // --- Export & Save Logic using Current State ---
-  const getCurrentData = () => {
-      if (!rootIdRef.current) return data;
-      return reconstructTreeFromFlow(nodes, edges, rootIdRef.current) || data;
-  };
+  const getCurrentData = () => tree;
 
-  const handleSave = () => {
+  const handleSave = async () => {
       const currentData = getCurrentData();
-      if (currentData) {
-          onSave(currentData);
+      if (currentData && await onSave(currentData)) {
           setShowSaveSuccess(true);
           setTimeout(() => setShowSaveSuccess(false), 2000);
       }
@@ -223,6 +754,34 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
     }
   };
 
+  // Vector exports cover the whole map: with branches folded, the full tree is laid out as if
+  // expanded instead of using the canvas, which leaves the hidden nodes out
+  const getExportElements = (): { nodes: Node[]; edges: Edge[] } => {
+      const current = treeRef.current;
+      if (!current || !hasCollapsed(current.root)) return { nodes, edges };
+      const layouted = getLayoutedElements(expandToLevel(current, Infinity), layoutType, sizesRef.current);
+      return { nodes: layouted.nodes.map(n => ({ ...n, ...sizesRef.current.get(n.id) })), edges: layouted.edges };
+  };
+
+  // Vector and desktop format exporters are loaded on first use to keep them out of the main bundle
+  const handleExportSvg = async () => {
+      const { generateSvgExport, toSvgDocument } = await import('../utils/vectorExport');
+      const { nodes: exportNodes, edges: exportEdges } = getExportElements();
+      const svg = generateSvgExport(exportNodes, exportEdges);
+      if (svg.width > 0) {
+          downloadFile(toSvgDocument(svg), `mindmap_${Date.now()}.svg`, 'image/svg+xml');
+      }
+  };
+
+  const handleExportPdf = async (layout: PdfLayout) => {
+      const { generateSvgExport, printSvgAsPdf } = await import('../utils/vectorExport');
+      const { nodes: exportNodes, edges: exportEdges } = getExportElements();
+      const svg = generateSvgExport(exportNodes, exportEdges);
+      if (svg.width > 0) {
+          printSvgAsPdf(svg, treeRef.current?.root.label || 'Mind Map', layout);
+      }
+  };
+
   const handleExportMermaid = () => {
       const currentData = getCurrentData();
       if (currentData) {
@@ -246,10 +805,52 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
       }
   };
 
+  const handleExportOpml = async () => {
+      const currentData = getCurrentData();
+      if (currentData) {
+          const { generateOpml } = await import('../utils/mindMapFormats');
+          downloadFile(generateOpml(currentData), `mindmap_${Date.now()}.opml`, 'text/x-opml');
+      }
+  };
+
+  const handleExportFreeMind = async () => {
+      const currentData = getCurrentData();
+      if (currentData) {
+          const { generateFreeMind } = await import('../utils/mindMapFormats');
+          downloadFile(generateFreeMind(currentData), `mindmap_${Date.now()}.mm`, 'application/x-freemind');
+      }
+  };
+
+  const handleExportXMind = async () => {
+      const currentData = getCurrentData();
+      if (currentData) {
+          const { generateXMind } = await import('../utils/mindMapFormats');
+          downloadFile(generateXMind(currentData), `mindmap_${Date.now()}.xmind`, 'application/vnd.xmind.workbook');
+      }
+  };
+
   if (!data) return null;
 
   return (
-    <div className="w-full h-full bg-slate-50 relative group" ref={flowWrapperRef}>
+    <div className="w-full h-full flex">
+    {showOutline && tree && (
+      <div className="w-80 flex-shrink-0 h-full z-10" ref={outlineRef}>
+        <OutlineView
+          data={tree}
+          selectedId={selectedId}
+          language={language}
+          onSelect={selectNode}
+          onUpdate={handleOutlineUpdate}
+          onIndent={(id) => editTree(tree => indentNode(tree, id), 'Indent')}
+          onOutdent={(id) => editTree(tree => outdentNode(tree, id), 'Outdent')}
+          onMove={onMoveSibling}
+          onAddSibling={handleOutlineAddSibling}
+          onToggleCollapse={onToggleCollapse}
+          onClose={() => setShowOutline(false)}
+        />
+      </div>
+    )}
+    <div className="flex-1 min-w-0 h-full bg-slate-50 relative group" ref={flowWrapperRef}>
       
       {/* Search Bar */}
       <Panel position="top-left" className="m-4 mt-20 z-10 w-64 pointer-events-auto">
@@ -291,11 +892,113 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
             >
                 R
             </button>
+            <button 
+                onClick={() => setLayoutType('MindMap')} 
+                className={`px-2 py-1.5 rounded-md ${layoutType === 'MindMap' ? 'bg-indigo-100 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+                title={t.layout_mindmap}
+            >
+                M
+            </button>
+            <button 
+                onClick={() => setLayoutType('OrgChart')} 
+                className={`px-2 py-1.5 rounded-md ${layoutType === 'OrgChart' ? 'bg-indigo-100 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+                title={t.layout_orgchart}
+            >
+                O
+            </button>
+            <div className="w-px bg-slate-200 mx-1"></div>
+            <button
+                onClick={handleRelayout}
+                className="px-2 py-1.5 rounded-md text-slate-600 hover:bg-slate-50"
+                title={t.relayout}
+            >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+            </button>
+        </div>
+
+        {/* Fold Levels */}
+        <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-slate-200 p-1 flex items-center text-xs">
+            <span className="px-2 text-slate-400">{t.expand_level}</span>
+            {[1, 2, 3].map(level => (
+                <button
+                    key={level}
+                    onClick={() => handleExpandToLevel(level)}
+                    className="px-2 py-1.5 rounded-md text-slate-600 hover:bg-slate-50"
+                >
+                    {level}
+                </button>
+            ))}
+            <button
+                onClick={() => handleExpandToLevel(Infinity)}
+                className="px-2 py-1.5 rounded-md text-slate-600 hover:bg-slate-50"
+            >
+                {t.expand_all}
+            </button>
         </div>
 
         {/* Action Buttons Row */}
         <div className="flex gap-2">
+
+            {/* Outline Toggle */}
+            <button
+                onClick={() => setShowOutline(v => !v)}
+                className={`flex items-center justify-center p-2 backdrop-blur rounded-lg shadow-sm border transition-colors ${showOutline ? 'bg-indigo-100 border-indigo-200 text-indigo-700' : 'bg-white/90 border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-indigo-600'}`}
+                title={t.outline_title}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M8 12h12M8 18h12M4 12h.01M4 18h.01" /></svg>
+            </button>
+
+            {/* Transcript Toggle */}
+            {tree?.transcript && (
+                <button
+                    onClick={() => setShowTranscript(v => !v)}
+                    className={`flex items-center justify-center p-2 backdrop-blur rounded-lg shadow-sm border transition-colors ${showTranscript ? 'bg-indigo-100 border-indigo-200 text-indigo-700' : 'bg-white/90 border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-indigo-600'}`}
+                    title={t.transcript_title}
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+                </button>
+            )}
+
+            {/* Keyboard Shortcuts */}
+            <button
+                onClick={() => setShowShortcuts(true)}
+                className="flex items-center justify-center p-2 bg-white/90 backdrop-blur rounded-lg shadow-sm border border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors"
+                title={`${t.shortcuts_title} (?)`}
+            >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><rect x="2" y="6" width="20" height="12" rx="2" strokeWidth={2} /><path strokeLinecap="round" strokeWidth={2} d="M6 10h.01M10 10h.01M14 10h.01M18 10h.01M8 14h8" /></svg>
+            </button>
+
+            {/* Undo / Redo */}
+            <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-slate-200 p-1 flex">
+                <button
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    className="p-1.5 rounded-md text-slate-600 hover:bg-slate-50 disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={`${t.undo} (Ctrl+Z)`}
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" /></svg>
+                </button>
+                <button
+                    onClick={handleRedo}
+                    disabled={!canRedo}
+                    className="p-1.5 rounded-md text-slate-600 hover:bg-slate-50 disabled:opacity-30 disabled:hover:bg-transparent"
+                    title={`${t.redo} (Ctrl+Shift+Z)`}
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2M21 10l-5-5M21 10l-5 5" /></svg>
+                </button>
+            </div>
             
+            {/* Version History */}
+            {onShowRevisions && (
+                <button
+                    onClick={onShowRevisions}
+                    className="flex items-center justify-center p-2 bg-white/90 backdrop-blur rounded-lg shadow-sm border border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-indigo-600 transition-colors"
+                    title={t.revisions_title}
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                </button>
+            )}
+
             {/* Save Button */}
             <button 
                 onClick={handleSave}
@@ -327,9 +1030,15 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
                 </button>
                 <div className="absolute right-0 top-full mt-1 w-48 bg-white rounded-xl shadow-xl border border-slate-100 py-1 hidden group-hover:block z-20">
                     <button onClick={handleExportImage} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_img}</button>
+                    <button onClick={handleExportSvg} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_svg}</button>
+                    <button onClick={() => handleExportPdf('single')} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_pdf}</button>
+                    <button onClick={() => handleExportPdf('pages')} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_pdf_pages}</button>
                     <button onClick={handleExportMermaid} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_code}</button>
                     <button onClick={handleExportMarkdown} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_md}</button>
                     <button onClick={handleExportJSON} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_json}</button>
+                    <button onClick={handleExportOpml} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_opml}</button>
+                    <button onClick={handleExportFreeMind} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_freemind}</button>
+                    <button onClick={handleExportXMind} className="w-full text-left px-4 py-2 text-xs hover:bg-slate-50 text-slate-700">{t.export_xmind}</button>
                 </div>
             </div>
         </div>
@@ -339,6 +1048,14 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
         nodes={nodes}
         edges={edges}
         onNodesChange={onNodesChange}
+        deleteKeyCode={null}
+        onNodeDrag={onNodeDrag}
+        onNodeDragStop={onNodeDragStop}
+        onConnect={onConnect}
+        onEdgeClick={onEdgeClick}
+        onPaneClick={() => setSelectedLinkId(null)}
+        onNodeMouseEnter={showTranscript ? (_, node) => setHoveredNodeId(node.id) : undefined}
+        onNodeMouseLeave={showTranscript ? () => setHoveredNodeId(null) : undefined}
         onEdgesChange={onEdgesChange}
         nodeTypes={nodeTypes}
         fitView
@@ -346,10 +1063,38 @@ const MindMapVisualizerContent: React.FC<MindMapVisualizerProps> = ({ data, lang
         minZoom={0.1}
         maxZoom={4}
       >
+        {selectedLink && (
+            <Panel position="bottom-center" className="mb-6">
+                <CrossLinkEditor
+                    key={selectedLink.id}
+                    link={selectedLink}
+                    language={language}
+                    onChange={handleLinkUpdate}
+                    onDelete={handleLinkDelete}
+                    onClose={() => setSelectedLinkId(null)}
+                />
+            </Panel>
+        )}
         <Background color="#cbd5e1" gap={16} size={1} />
         <Controls className="bg-white border-slate-200 shadow-md text-slate-700" />
         <MiniMap nodeColor={(n) => n.data.style?.backgroundColor || '#cbd5e1'} className="border border-slate-200 shadow-sm rounded-lg overflow-hidden" />
       </ReactFlow>
+
+      <ShortcutSheet isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} language={language} />
+    </div>
+    {showTranscript && tree?.transcript && (
+      <div className="w-80 flex-shrink-0 h-full z-10">
+        <TranscriptPanel
+          data={tree}
+          hoveredNodeId={hoveredNodeId}
+          hoveredSentenceId={hoveredSentenceId}
+          language={language}
+          onHoverSentence={setHoveredSentenceId}
+          onSelectNode={focusNode}
+          onClose={() => { setShowTranscript(false); setHoveredNodeId(null); setHoveredSentenceId(null); }}
+        />
+      </div>
+    )}
     </div>
   );
 };
\ No newline at end of file
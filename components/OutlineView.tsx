@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MindMapData, MindMapNode } from '../types';
+import { translations, Language } from '../utils/translations';
+
+interface OutlineViewProps {
+  data: MindMapData;
+  selectedId: string | null;
+  language: Language;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<MindMapNode>) => void;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onAddSibling: (id: string) => void;
+  onToggleCollapse: (id: string) => void;
+  onClose: () => void;
+}
+
+interface OutlineRowProps extends Omit<OutlineViewProps, 'data' | 'onClose' | 'language'> {
+  node: MindMapNode;
+  depth: number;
+  detailsPlaceholder: string;
+}
+
+const OutlineRow: React.FC<OutlineRowProps> = ({ node, depth, detailsPlaceholder, ...handlers }) => {
+  const { selectedId, onSelect, onUpdate, onIndent, onOutdent, onMove, onAddSibling, onToggleCollapse } = handlers;
+  const [label, setLabel] = useState(node.label);
+  const [details, setDetails] = useState(node.details || '');
+  const isSelected = node.id === selectedId;
+  const hasChildren = !!node.children && node.children.length > 0;
+
+  // Sync local edits when the tree changes elsewhere (canvas, undo)
+  useEffect(() => setLabel(node.label), [node.label]);
+  useEffect(() => setDetails(node.details || ''), [node.details]);
+
+  const commitLabel = () => {
+    if (label.trim() && label !== node.label) onUpdate(node.id, { label: label.trim() });
+    else setLabel(node.label);
+  };
+
+  const commitDetails = () => {
+    if (details !== (node.details || '')) onUpdate(node.id, { details: details || undefined });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      commitLabel();
+      if (e.shiftKey) onOutdent(node.id);
+      else onIndent(node.id);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      commitLabel();
+      onAddSibling(node.id);
+    } else if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      commitLabel();
+      onMove(node.id, e.key === 'ArrowUp' ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setLabel(node.label);
+      (e.target as HTMLInputElement).blur();
+    }
+  };
+
+  return (
+    <li>
+      <div
+        data-outline-id={node.id}
+        className={`flex items-start gap-1 pr-2 py-0.5 rounded-md ${isSelected ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+        style={{ paddingLeft: depth * 16 + 4 }}
+      >
+        <button
+          onClick={() => hasChildren && onToggleCollapse(node.id)}
+          className={`w-4 h-6 flex-shrink-0 text-[10px] text-slate-400 ${hasChildren ? 'hover:text-slate-700' : 'cursor-default'}`}
+          tabIndex={-1}
+        >
+          {hasChildren ? (node.collapsed ? '▶' : '▼') : '•'}
+        </button>
+        <div className="flex-1 min-w-0">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onFocus={() => onSelect(node.id)}
+            onBlur={commitLabel}
+            onKeyDown={handleKeyDown}
+            className={`w-full bg-transparent text-sm outline-none py-0.5 ${depth === 0 ? 'font-bold text-slate-800' : 'text-slate-700'}`}
+          />
+          {(isSelected || node.details) && (
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              onFocus={() => onSelect(node.id)}
+              onBlur={commitDetails}
+              placeholder={detailsPlaceholder}
+              rows={isSelected ? 2 : 1}
+              className="w-full bg-transparent text-xs italic text-slate-500 outline-none resize-none"
+            />
+          )}
+        </div>
+        {hasChildren && node.collapsed && (
+          <span className="mt-1 px-1.5 rounded-full bg-indigo-100 text-indigo-700 text-[10px] font-bold">{node.children!.length}</span>
+        )}
+      </div>
+      {hasChildren && !node.collapsed && (
+        <ul>
+          {node.children!.map(child => (
+            <OutlineRow key={child.id} node={child} depth={depth + 1} detailsPlaceholder={detailsPlaceholder} {...handlers} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const OutlineView: React.FC<OutlineViewProps> = ({ data, language, onClose, ...handlers }) => {
+  const t = translations[language];
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Set by outline shortcuts that re-create rows (indent, new sibling) so focus follows the node
+  const refocusRef = useRef(false);
+
+  // Follow canvas selection: scroll the row into view, and move focus to it while typing in the outline
+  useEffect(() => {
+    if (!handlers.selectedId || !containerRef.current) return;
+    const row = containerRef.current.querySelector(`[data-outline-id="${handlers.selectedId}"]`);
+    if (!row) return;
+    row.scrollIntoView({ block: 'nearest' });
+    const typing = refocusRef.current || containerRef.current.contains(document.activeElement);
+    refocusRef.current = false;
+    if (typing && !row.contains(document.activeElement)) {
+      row.querySelector('input')?.focus();
+    }
+  }, [handlers.selectedId, data]);
+
+  return (
+    <div className="h-full flex flex-col bg-white border-r border-slate-200">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-slate-800">{t.outline_title}</h3>
+          <p className="text-[10px] text-slate-400">{t.outline_hint}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      <div
+        ref={containerRef}
+        className="flex-1 overflow-y-auto p-2"
+        onKeyDownCapture={(e) => { if (e.key === 'Tab' || e.key === 'Enter' || e.altKey) refocusRef.current = true; }}
+      >
+        <ul>
+          <OutlineRow node={data.root} depth={0} detailsPlaceholder={t.outline_details} {...handlers} />
+        </ul>
+      </div>
+    </div>
+  );
+};
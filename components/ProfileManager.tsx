@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { NodeCategory } from '../types';
+import { translations, Language } from '../utils/translations';
+import { GenerationProfile, getCustomProfiles, saveCustomProfile, deleteCustomProfile } from '../utils/profiles';
+
+const CATEGORIES: NodeCategory[] = ['idea', 'task', 'question', 'fact'];
+
+// Built-in profiles reuse the landing page use-case labels
+const BUILT_IN_LABEL_KEYS: Record<string, keyof typeof translations.en> = {
+  general: 'profile_general',
+  travel: 'case_1',
+  brainstorm: 'case_2',
+  meeting: 'case_3',
+  study: 'case_4',
+};
+
+export const getProfileLabel = (profile: GenerationProfile, language: Language): string => {
+  const key = profile.builtIn ? BUILT_IN_LABEL_KEYS[profile.id] : undefined;
+  return key ? translations[language][key] : `${profile.emoji} ${profile.name}`;
+};
+
+const emptyProfile = (): GenerationProfile => ({
+  id: crypto.randomUUID(),
+  name: '',
+  emoji: '⭐',
+  instructions: '',
+  defaultCategories: ['idea', 'task'],
+  maxDepth: 4,
+});
+
+interface ProfileManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (profile: GenerationProfile) => void;
+  onDeleted: (id: string) => void;
+  language: Language;
+}
+
+export const ProfileManager: React.FC<ProfileManagerProps> = ({ isOpen, onClose, onSaved, onDeleted, language }) => {
+  const [profiles, setProfiles] = useState<GenerationProfile[]>([]);
+  const [draft, setDraft] = useState<GenerationProfile>(emptyProfile());
+  const t = translations[language];
+
+  useEffect(() => {
+    if (isOpen) {
+      setProfiles(getCustomProfiles());
+      setDraft(emptyProfile());
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toggleCategory = (category: NodeCategory) => {
+    setDraft(d => ({
+      ...d,
+      defaultCategories: d.defaultCategories.includes(category)
+        ? d.defaultCategories.filter(c => c !== category)
+        : [...d.defaultCategories, category],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    const profile = {
+      ...draft,
+      name: draft.name.trim(),
+      defaultCategories: draft.defaultCategories.length > 0 ? draft.defaultCategories : CATEGORIES,
+    };
+    saveCustomProfile(profile);
+    setProfiles(getCustomProfiles());
+    setDraft(emptyProfile());
+    onSaved(profile);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm(t.profile_delete_confirm)) return;
+    deleteCustomProfile(id);
+    setProfiles(getCustomProfiles());
+    if (draft.id === id) setDraft(emptyProfile());
+    onDeleted(id);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="px-6 py-4 bg-indigo-50 border-b border-indigo-100 flex justify-between items-center">
+            <div>
+                <h2 className="text-xl font-bold text-slate-800">{t.profiles_title}</h2>
+                <p className="text-xs text-slate-500 mt-1">{t.profiles_desc}</p>
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+            {/* Existing custom profiles */}
+            {profiles.length > 0 && (
+                <div className="space-y-2">
+                    {profiles.map(profile => (
+                        <div key={profile.id} className="flex items-center justify-between p-3 rounded-xl border border-slate-100 bg-slate-50">
+                            <span className="text-sm font-medium text-slate-700 truncate">{profile.emoji} {profile.name}</span>
+                            <div className="flex gap-1 flex-shrink-0">
+                                <button onClick={() => setDraft(profile)} className="px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50 rounded">{t.edit_label}</button>
+                                <button onClick={() => handleDelete(profile.id)} className="px-2 py-1 text-xs text-red-500 hover:bg-red-50 rounded">{t.delete}</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Editor */}
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={draft.emoji}
+                        onChange={(e) => setDraft({ ...draft, emoji: e.target.value })}
+                        className="w-14 px-2 py-2 rounded-lg border border-slate-300 text-center outline-none focus:ring-2 focus:ring-indigo-500"
+                        maxLength={4}
+                    />
+                    <input
+                        type="text"
+                        required
+                        placeholder={t.profile_name}
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        className="flex-1 px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                    />
+                </div>
+
+                <textarea
+                    placeholder={t.profile_instructions}
+                    value={draft.instructions}
+                    onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                    rows={4}
+                    className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-sm resize-none"
+                />
+
+                <div>
+                    <div className="text-xs text-slate-500 mb-1.5">{t.profile_categories}</div>
+                    <div className="flex gap-2 flex-wrap">
+                        {CATEGORIES.map(category => (
+                            <button
+                                type="button"
+                                key={category}
+                                onClick={() => toggleCategory(category)}
+                                className={`px-3 py-1 rounded-full text-xs border transition-colors ${draft.defaultCategories.includes(category) ? 'bg-indigo-100 text-indigo-700 border-indigo-200' : 'bg-white text-slate-500 border-slate-200'}`}
+                            >
+                                {category}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="flex items-center justify-between text-xs text-slate-500">
+                    {t.profile_depth}
+                    <input
+                        type="number"
+                        min={1}
+                        max={8}
+                        value={draft.maxDepth}
+                        onChange={(e) => setDraft({ ...draft, maxDepth: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                        className="w-16 px-2 py-1 rounded-lg border border-slate-300 text-center outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                </label>
+
+                <button
+                    type="submit"
+                    className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium shadow-md hover:shadow-lg transition-all"
+                >
+                    {t.save}
+                </button>
+            </form>
+        </div>
+      </div>
+    </div>
+  );
+};
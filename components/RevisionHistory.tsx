@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, MapRevision, RevisionReason } from '../types';
+import { getRevisions } from '../utils/mapLibrary';
+import { diffMaps, DiffNode, DiffStatus } from '../utils/mapDiff';
+import { translations, Language } from '../utils/translations';
+
+interface RevisionHistoryProps {
+  item: HistoryItem | null;
+  language: Language;
+  onClose: () => void;
+  onRestore: (revision: MapRevision) => void;
+}
+
+const REASON_STYLES: Record<RevisionReason, string> = {
+  generation: 'bg-indigo-100 text-indigo-700',
+  enrichment: 'bg-sky-100 text-sky-700',
+  save: 'bg-slate-100 text-slate-600',
+  import: 'bg-amber-100 text-amber-700',
+  restore: 'bg-emerald-100 text-emerald-700',
+};
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-50 text-green-800 border-l-2 border-green-500',
+  removed: 'bg-red-50 text-red-700 line-through border-l-2 border-red-400',
+  changed: 'bg-amber-50 text-amber-800 border-l-2 border-amber-400',
+  moved: 'bg-sky-50 text-sky-800 border-l-2 border-sky-400',
+  unchanged: 'text-slate-500 border-l-2 border-transparent',
+};
+
+const countNodes = (revision: MapRevision) => {
+  let count = 0;
+  const visit = (node: { children?: any[] }) => {
+    count++;
+    (node.children || []).forEach(visit);
+  };
+  visit(revision.data.root);
+  return count;
+};
+
+const DiffRow: React.FC<{ node: DiffNode; depth: number; language: Language }> = ({ node, depth, language }) => {
+  const t = translations[language];
+  return (
+    <li>
+      <div className={`text-sm py-0.5 pr-2 rounded-r ${STATUS_STYLES[node.status]}`} style={{ paddingLeft: depth * 16 + 8 }}>
+        {node.label}
+        {node.previousLabel !== undefined && (
+          <span className="ml-2 text-xs text-slate-400 line-through">{node.previousLabel}</span>
+        )}
+        {node.status === 'changed' && node.changedFields.some(f => f !== 'label') && (
+          <span className="ml-2 text-[10px] uppercase tracking-wider text-amber-600">
+            {node.changedFields.filter(f => f !== 'label').join(', ')}
+          </span>
+        )}
+        {node.status === 'moved' && (
+          <span className="ml-2 text-[10px] uppercase tracking-wider text-sky-600">{t.diff_moved}</span>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ul>
+          {node.children.map(child => <DiffRow key={`${child.status}-${child.id}`} node={child} depth={depth + 1} language={language} />)}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ item, language, onClose, onRestore }) => {
+  const t = translations[language];
+  const [revisions, setRevisions] = useState<MapRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Revision to compare against; defaults to the one just before the selected revision
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    setRevisions([]);
+    getRevisions(item.id)
+      .then(list => {
+        setRevisions(list);
+        setSelectedId(list[0]?.id || null);
+        setBaseId(null);
+      })
+      .catch(e => {
+        console.error("Failed to load revisions", e);
+        alert(t.history_load_failed);
+      });
+  }, [item]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const base = revisions.find(r => r.id === baseId) || revisions[selectedIndex + 1];
+
+  const diff = useMemo(
+    () => (selected && base ? diffMaps(base.data, selected.data) : null),
+    [selected, base]
+  );
+
+  if (!item) return null;
+
+  const reasonLabel = (reason: RevisionReason) => t[`revision_${reason}` as const];
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[80vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 bg-indigo-50 border-b border-indigo-100 flex justify-between items-center">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">{t.revisions_title}</h2>
+              <p className="text-xs text-slate-500">{item.previewLabel}</p>
+            </div>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Timeline */}
+          <ol className="w-64 border-r border-slate-100 overflow-y-auto p-3 space-y-1">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => { setSelectedId(revision.id); setBaseId(null); }}
+                  className={`w-full text-left p-2 rounded-lg border transition-colors ${revision.id === selectedId ? 'border-indigo-300 bg-indigo-50' : revision.id === base?.id ? 'border-slate-300 bg-slate-50' : 'border-transparent hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${REASON_STYLES[revision.reason]}`}>
+                      {reasonLabel(revision.reason)}
+                    </span>
+                    {index === 0 && <span className="text-[10px] text-slate-400">{t.revision_latest}</span>}
+                  </div>
+                  <div className="mt-1 text-xs text-slate-500 font-mono">{new Date(revision.timestamp).toLocaleString()}</div>
+                  <div className="text-[10px] text-slate-400">{t.revision_nodes.replace('{count}', String(countNodes(revision)))}</div>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected && (
+              <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-3 text-xs">
+                <span className="text-slate-500">{t.diff_compare_with}</span>
+                <select
+                  value={base?.id || ''}
+                  onChange={(e) => setBaseId(e.target.value || null)}
+                  className="border border-slate-200 rounded-md px-2 py-1 text-xs bg-white"
+                >
+                  {!base && <option value="">—</option>}
+                  {revisions.filter(r => r.id !== selected.id).map(r => (
+                    <option key={r.id} value={r.id}>{new Date(r.timestamp).toLocaleString()} · {reasonLabel(r.reason)}</option>
+                  ))}
+                </select>
+                {diff && (
+                  <span className="flex gap-2 ml-auto">
+                    <span className="text-green-700">+{diff.summary.added}</span>
+                    <span className="text-red-600">−{diff.summary.removed}</span>
+                    <span className="text-amber-700">~{diff.summary.changed}</span>
+                    <span className="text-sky-700">↷{diff.summary.moved}</span>
+                  </span>
+                )}
+                <button
+                  onClick={() => onRestore(selected)}
+                  disabled={selectedIndex === 0}
+                  className={`px-3 py-1.5 rounded-lg font-medium ${selectedIndex === 0 ? 'bg-slate-100 text-slate-400' : 'bg-indigo-600 text-white hover:bg-indigo-700'} ${diff ? '' : 'ml-auto'}`}
+                >
+                  {t.revision_restore_action}
+                </button>
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto p-4">
+              {diff ? (
+                <ul>
+                  <DiffRow node={diff.tree} depth={0} language={language} />
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-400 text-center mt-10">{t.revisions_single}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { translations, Language } from '../utils/translations';
+
+interface ShortcutSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  language: Language;
+}
+
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ isOpen, onClose, language }) => {
+  if (!isOpen) return null;
+  const t = translations[language];
+
+  const shortcuts: { keys: string[]; label: string }[] = [
+    { keys: ['Tab'], label: t.shortcut_add_child },
+    { keys: ['Enter'], label: t.shortcut_add_sibling },
+    { keys: ['←', '↑', '→', '↓'], label: t.shortcut_navigate },
+    { keys: ['F2'], label: t.shortcut_rename },
+    { keys: ['Del'], label: t.shortcut_delete },
+    { keys: ['Shift', 'Del'], label: t.shortcut_delete_promote },
+    { keys: ['Alt', '↑ / ↓'], label: t.shortcut_reorder },
+    { keys: ['Alt', '← / →'], label: t.shortcut_indent },
+    { keys: ['Space'], label: t.shortcut_toggle },
+    { keys: ['Ctrl', 'X / C / V'], label: t.shortcut_clipboard },
+    { keys: ['Ctrl', 'Z'], label: t.undo },
+    { keys: ['Ctrl', 'Shift', 'Z'], label: t.redo },
+    { keys: ['?'], label: t.shortcut_help },
+  ];
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 bg-indigo-50 border-b border-indigo-100 flex justify-between items-center">
+            <h2 className="text-lg font-bold text-slate-800">{t.shortcuts_title}</h2>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+        </div>
+
+        <div className="p-6 space-y-2">
+            {shortcuts.map(shortcut => (
+                <div key={shortcut.label} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-600">{shortcut.label}</span>
+                    <span className="flex gap-1">
+                        {shortcut.keys.map(key => (
+                            <kbd key={key} className="px-2 py-0.5 rounded-md border border-slate-200 bg-slate-50 text-xs font-mono text-slate-700 shadow-sm">{key}</kbd>
+                        ))}
+                    </span>
+                </div>
+            ))}
+            <p className="pt-2 text-xs text-slate-400">{t.shortcuts_hint}</p>
+            <p className="text-xs text-slate-400">{t.relationship_hint}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
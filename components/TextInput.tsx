@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { ProcessingStatus } from '../types';
+import { translations, Language } from '../utils/translations';
+import { readTranscriptFile, TRANSCRIPT_EXTENSIONS } from '../utils/transcriptUtils';
+
+interface TextInputProps {
+  onSubmit: (text: string) => void;
+  status: ProcessingStatus;
+  language: Language;
+}
+
+export const TextInput: React.FC<TextInputProps> = ({ onSubmit, status, language }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = translations[language];
+  const isDisabled = status === 'processing';
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const content = await readTranscriptFile(file);
+      setText(content);
+      setFileName(file.name);
+    } catch (err) {
+      console.error("Failed to read transcript", err);
+      alert(t.transcript_read_error);
+    }
+  };
+
+  const handleSubmit = () => {
+    const trimmed = text.trim();
+    if (!trimmed || isDisabled) return;
+    onSubmit(trimmed);
+  };
+
+  return (
+    <div className="flex flex-col w-full gap-3">
+      <textarea
+        value={text}
+        onChange={(e) => { setText(e.target.value); setFileName(null); }}
+        placeholder={t.text_placeholder}
+        disabled={isDisabled}
+        rows={7}
+        className="w-full px-4 py-3 rounded-2xl border border-slate-200 bg-slate-50 text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none transition-all disabled:opacity-60"
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDisabled}
+          className="flex items-center gap-1.5 px-3 py-2 bg-white text-slate-600 rounded-lg border border-slate-200 text-xs font-medium hover:bg-slate-50 disabled:opacity-50 min-w-0"
+          title={TRANSCRIPT_EXTENSIONS.join(', ')}
+        >
+          <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+          <span className="truncate">{fileName || t.upload_transcript}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={[...TRANSCRIPT_EXTENSIONS, 'text/plain', 'text/vtt'].join(',')}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        <button
+          onClick={handleSubmit}
+          disabled={isDisabled || !text.trim()}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-medium shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+        >
+          {isDisabled ? t.processing : t.generate_map}
+        </button>
+      </div>
+
+      {status === 'processing' && (
+        <div className="flex justify-center">
+            <div className="w-6 h-6 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+        </div>
+      )}
+    </div>
+  );
+};
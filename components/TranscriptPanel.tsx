@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MindMapData, MindMapNode, TranscriptSentence } from '../types';
+import { findNode } from '../utils/treeUtils';
+import { translations, Language } from '../utils/translations';
+
+interface TranscriptPanelProps {
+  data: MindMapData;
+  // Node hovered on the canvas; its source sentences are highlighted and scrolled into view
+  hoveredNodeId: string | null;
+  hoveredSentenceId: string | null;
+  language: Language;
+  onHoverSentence: (id: string | null) => void;
+  onSelectNode: (id: string) => void;
+  onClose: () => void;
+}
+
+interface SpeakerTurn {
+  speaker?: string;
+  sentences: TranscriptSentence[];
+}
+
+const SPEAKER_COLORS = ['text-indigo-600', 'text-emerald-600', 'text-amber-600', 'text-rose-600', 'text-sky-600'];
+
+const toTurns = (transcript: TranscriptSentence[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  transcript.forEach(sentence => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === sentence.speaker) last.sentences.push(sentence);
+    else turns.push({ speaker: sentence.speaker, sentences: [sentence] });
+  });
+  return turns;
+};
+
+// Which nodes cite each sentence, and which nodes cite none at all
+const indexSources = (root: MindMapNode) => {
+  const nodesBySentence = new Map<string, MindMapNode[]>();
+  const unsourced: MindMapNode[] = [];
+  const visit = (node: MindMapNode) => {
+    if (node.sentenceIds?.length) {
+      node.sentenceIds.forEach(id => nodesBySentence.set(id, [...(nodesBySentence.get(id) || []), node]));
+    } else {
+      unsourced.push(node);
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+  return { nodesBySentence, unsourced };
+};
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ data, hoveredNodeId, hoveredSentenceId, language, onHoverSentence, onSelectNode, onClose }) => {
+  const t = translations[language];
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Position in the list of unsourced nodes for the "next" button
+  const [auditIndex, setAuditIndex] = useState(0);
+
+  const transcript = useMemo(() => data.transcript || [], [data.transcript]);
+  const turns = useMemo(() => toTurns(transcript), [transcript]);
+  const speakers = useMemo(() => Array.from(new Set(transcript.map(s => s.speaker).filter(Boolean))), [transcript]);
+  const { nodesBySentence, unsourced } = useMemo(() => indexSources(data.root), [data.root]);
+
+  const highlighted = useMemo(() => {
+    const node = hoveredNodeId ? findNode(data.root, hoveredNodeId) : null;
+    return new Set(node?.sentenceIds || []);
+  }, [data.root, hoveredNodeId]);
+
+  useEffect(() => {
+    const first = transcript.find(sentence => highlighted.has(sentence.id));
+    if (!first || !containerRef.current) return;
+    containerRef.current.querySelector(`[data-sentence-id="${CSS.escape(first.id)}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlighted]);
+
+  const handleNextUnsourced = () => {
+    if (unsourced.length === 0) return;
+    onSelectNode(unsourced[auditIndex % unsourced.length].id);
+    setAuditIndex(i => i + 1);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-slate-200">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-slate-800">{t.transcript_title}</h3>
+          <p className="text-[10px] text-slate-400">{t.transcript_hint}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {turns.map((turn, index) => (
+          <div key={`${index}-${turn.sentences[0].id}`}>
+            {turn.speaker && (
+              <div className={`text-[10px] font-bold uppercase tracking-wider mb-0.5 ${SPEAKER_COLORS[speakers.indexOf(turn.speaker) % SPEAKER_COLORS.length]}`}>
+                {turn.speaker}
+              </div>
+            )}
+            <p className="text-sm leading-relaxed">
+              {turn.sentences.map(sentence => {
+                const sources = nodesBySentence.get(sentence.id) || [];
+                const isHighlighted = highlighted.has(sentence.id) || sentence.id === hoveredSentenceId;
+                return (
+                  <span
+                    key={sentence.id}
+                    data-sentence-id={sentence.id}
+                    onMouseEnter={() => onHoverSentence(sentence.id)}
+                    onMouseLeave={() => onHoverSentence(null)}
+                    onClick={() => sources[0] && onSelectNode(sources[0].id)}
+                    title={sources.map(node => node.label).join(' · ')}
+                    className={`rounded px-0.5 transition-colors ${isHighlighted ? 'bg-amber-200 text-slate-900' : sources.length > 0 ? 'text-slate-700 cursor-pointer hover:bg-slate-100' : 'text-slate-400'}`}
+                  >
+                    {sentence.text}{' '}
+                  </span>
+                );
+              })}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 py-2 border-t border-slate-100 text-xs flex items-center justify-between gap-2">
+        {unsourced.length > 0 ? (
+          <>
+            <span className="text-amber-700">{t.transcript_unsourced.replace('{count}', String(unsourced.length))}</span>
+            <button onClick={handleNextUnsourced} className="px-2 py-1 rounded-md text-indigo-600 hover:bg-indigo-50">
+              {t.transcript_next_unsourced}
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-400">{t.transcript_all_sourced}</span>
+        )}
+      </div>
+    </div>
+  );
+};
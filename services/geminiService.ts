@@ -1,7 +1,17 @@
-import { GoogleGenAI } from "@google/genai";
-import { MindMapData } from "../types";
+import { Content, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { MindMapData, MindMapUpdate } from "../types";
+import { toPromptTree } from "../utils/treeUtils";
+import { validateMindMap } from "../utils/mapValidation";
+import { parsePartialJson } from "../utils/partialJson";
+import { buildProfileInstructions, GenerationProfile } from "../utils/profiles";
+import type { EnrichmentResult, MindMapProvider, RequestOptions } from "./mapProvider";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+// Model names used by the Gemini provider
+const MODELS = {
+  structure: 'gemini-3-pro-preview', // advanced reasoning (thinking) capabilities
+  search: 'gemini-3-flash-preview',  // allows googleSearch tool
+  maps: 'gemini-2.5-flash',          // allows googleMaps tool
+};
 
 const SYSTEM_PROMPT = `
 You are an expert at structuring disorganized spoken thoughts into clear, logical, hierarchical mind maps.
@@ -14,135 +24,379 @@ Rules:
 4. Add 'details' if there is specific extra info (dates, prices, specific items).
 5. Assign a 'category' to each node from these options: 'idea' (general concept), 'task' (action item), 'question' (uncertainty), 'fact' (statement).
 6. Assign a unique string ID to every node.
-7. Return ONLY the JSON object.
+7. If the speaker connects ideas that sit in different branches, add them to 'crossLinks' with the 'source' and 'target' node IDs and a short 'label' describing the relationship. Only add links that were actually stated; most maps need none.
+8. For audio input, set 'audio' on every node to the 'start' and 'end' time, in seconds from the beginning of the recording, of the passage the node was taken from. Omit 'audio' for text input.
+9. Write the 'transcript' first: everything that was said, in order, split into sentences. Give each sentence a unique 'id' ('s1', 's2', ...), its 'speaker' and its 'text'. Name speakers 'Speaker 1', 'Speaker 2', ... unless their names are stated. For text input, keep the wording of the text.
+10. Set 'sentenceIds' on every node to the ids of the transcript sentences it was derived from. A node that no sentence supports must not be added.
+11. Return ONLY the JSON object.
+`;
+
+const APPEND_PROMPT = `
+You are extending an existing mind map with newly spoken thoughts.
+You receive the current map as JSON and a new audio recording that continues the same session.
+
+Rules:
+1. Do NOT repeat concepts that already exist in the current map.
+2. Return new content as 'additions'. Each addition has a 'parentId' (an existing node ID, or the ID of a node added earlier in the same response) and a 'node' subtree.
+3. Only if the speaker explicitly reorganizes existing ideas, return 'moves' with the existing node 'id' and its 'newParentId'.
+4. Never change existing IDs. Assign fresh unique string IDs to every new node.
+5. Keep labels concise (2-5 words), add 'details' for specific extra info, and assign a 'category' ('idea', 'task', 'question', 'fact').
+6. If the new thoughts explicitly relate ideas in different branches, return 'crossLinks' with 'source' and 'target' node IDs (existing or new) and a short 'label'.
+7. Set 'audio' on every new node to the 'start' and 'end' time, in seconds from the beginning of the new recording, of the passage the node was taken from.
+8. Return the 'transcript' of the new recording only, split into sentences with a unique 'id' ('s1', 's2', ...), the 'speaker' and the 'text', and set 'sentenceIds' on every new node to the sentences it was derived from.
+9. Return ONLY the JSON object: { "transcript": [...], "additions": [...], "moves": [...], "crossLinks": [...] }.
 `;
 
-export const generateMindMapFromAudio = async (audioBlob: Blob): Promise<MindMapData> => {
-  try {
-    const base64Audio = await blobToBase64(audioBlob);
+const STRUCTURE_INSTRUCTION = "Structurally organize these thoughts into a Mind Map JSON with a 'transcript' array and a 'root' object containing 'id', 'label', 'details', 'category', 'sentenceIds', and 'children' array.";
+
+// --- Response Schemas ---
+
+// JSON schemas cannot recurse, so the node schema is unrolled down to a fixed depth
+export const buildNodeSchema = (depth: number): Schema => {
+  const properties: Record<string, Schema> = {
+    id: { type: Type.STRING },
+    label: { type: Type.STRING },
+    details: { type: Type.STRING },
+    category: { type: Type.STRING, format: 'enum', enum: ['idea', 'task', 'question', 'fact'] },
+    // Seconds into the recording the node was taken from
+    audio: {
+      type: Type.OBJECT,
+      properties: { start: { type: Type.NUMBER }, end: { type: Type.NUMBER } },
+      required: ['start', 'end'],
+    },
+    sentenceIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+  };
+  if (depth > 0) {
+    properties.children = { type: Type.ARRAY, items: buildNodeSchema(depth - 1) };
+  }
+  return {
+    type: Type.OBJECT,
+    properties,
+    required: ['id', 'label', 'category'],
+    propertyOrdering: ['id', 'label', 'details', 'category', 'audio', 'sentenceIds', 'children'],
+  };
+};
+
+// Relationships between nodes in different branches; ids are assigned during validation
+const crossLinksSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      source: { type: Type.STRING },
+      target: { type: Type.STRING },
+      label: { type: Type.STRING },
+    },
+    required: ['source', 'target'],
+  },
+};
+
+// Sentences of what was said; nodes point at them through 'sentenceIds'
+const transcriptSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      speaker: { type: Type.STRING },
+      text: { type: Type.STRING },
+    },
+    required: ['id', 'text'],
+    propertyOrdering: ['id', 'speaker', 'text'],
+  },
+};
+
+// The transcript comes first so nodes are written against sentences that already exist
+export const buildMapSchema = (depth: number): Schema => ({
+  type: Type.OBJECT,
+  properties: { transcript: transcriptSchema, root: buildNodeSchema(depth), crossLinks: crossLinksSchema },
+  required: ['root'],
+  propertyOrdering: ['transcript', 'root', 'crossLinks'],
+});
+
+export const buildUpdateSchema = (depth: number): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    transcript: transcriptSchema,
+    additions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          parentId: { type: Type.STRING },
+          node: buildNodeSchema(depth),
+        },
+        required: ['parentId', 'node'],
+      },
+    },
+    moves: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          newParentId: { type: Type.STRING },
+        },
+        required: ['id', 'newParentId'],
+      },
+    },
+    crossLinks: crossLinksSchema,
+  },
+  required: ['additions'],
+  propertyOrdering: ['transcript', 'additions', 'moves', 'crossLinks'],
+});
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  // Levels below the root expressed in the response schema
+  schemaDepth?: number;
+  // Extra attempts with a correction message when the response cannot be parsed
+  maxRetries?: number;
+}
+
+const DEFAULT_SCHEMA_DEPTH = 5;
+const DEFAULT_MAX_RETRIES = 2;
+
+const parseMindMap = (jsonText: string): MindMapData => {
+  return validateMindMap(JSON.parse(jsonText)).data;
+};
+
+const parseUpdate = (jsonText: string): MindMapUpdate => {
+  const parsedUpdate = JSON.parse(jsonText) as MindMapUpdate;
+
+  if (!Array.isArray(parsedUpdate.additions)) {
+    throw new Error("Invalid JSON structure: missing additions");
+  }
+  if (!Array.isArray(parsedUpdate.moves)) parsedUpdate.moves = [];
+  if (!Array.isArray(parsedUpdate.crossLinks)) delete parsedUpdate.crossLinks;
+  if (!Array.isArray(parsedUpdate.transcript)) delete parsedUpdate.transcript;
+
+  return parsedUpdate;
+};
+
+const withProfile = (basePrompt: string, profile?: GenerationProfile) =>
+  profile ? `${basePrompt}\n${buildProfileInstructions(profile)}\n` : basePrompt;
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): MindMapProvider => {
+  const ai = new GoogleGenAI({ apiKey: options.apiKey ?? process.env.GEMINI_API_KEY });
+  const schemaDepth = options.schemaDepth ?? DEFAULT_SCHEMA_DEPTH;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  // The profile depth only narrows the schema; the configured depth stays the upper bound
+  const depthFor = (profile?: GenerationProfile) => Math.min(profile?.maxDepth ?? schemaDepth, schemaDepth);
+
+  /**
+   * Runs a streamed structured-output request and parses the result.
+   * Partial documents are reported through `onPartial` as chunks arrive.
+   * When parsing fails, the bad response and the error are sent back as a
+   * follow-up turn asking the model to correct itself.
+   */
+  const generateJson = async <T>(
+    parts: Part[],
+    systemInstruction: string,
+    responseSchema: Schema,
+    parse: (jsonText: string) => T,
+    { signal, onPartial }: RequestOptions = {}
+  ): Promise<T> => {
+    const contents: Content[] = [{ role: 'user', parts }];
+
+    for (let attempt = 0; ; attempt++) {
+      const stream = await ai.models.generateContentStream({
+        model: MODELS.structure,
+        contents,
+        config: {
+          systemInstruction,
+          responseMimeType: 'application/json',
+          responseSchema,
+          abortSignal: signal,
+          thinkingConfig: {
+            thinkingBudget: 32768
+          }
+        }
+      });
+
+      let jsonText = '';
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+        if (!chunk.text) continue;
+        jsonText += chunk.text;
+        if (onPartial) {
+          const partial = parsePartialJson(jsonText);
+          if (partial) onPartial(partial);
+        }
+      }
+
+      try {
+        if (!jsonText) throw new Error("No text response from Gemini");
+        return parse(jsonText);
+      } catch (error: any) {
+        if (attempt >= maxRetries) throw error;
+        console.warn(`Gemini returned unusable JSON (attempt ${attempt + 1}), retrying`, error);
+        contents.push(
+          { role: 'model', parts: [{ text: jsonText }] },
+          { role: 'user', parts: [{ text: `Your previous response could not be used: ${error.message}. Return the corrected JSON only, matching the response schema exactly.` }] }
+        );
+      }
+    }
+  };
+
+  const structureFromAudio = async (audioBlob: Blob, options?: RequestOptions): Promise<MindMapData> => {
+    try {
+      const base64Audio = await blobToBase64(audioBlob);
 
-    // Using gemini-3-pro-preview for advanced reasoning (thinking) capabilities
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
+      return await generateJson(
+        [
           {
             inlineData: {
-              mimeType: 'audio/mp3', 
+              mimeType: audioBlob.type || 'audio/webm',
               data: base64Audio
             }
           },
           {
-            text: "Listen to this audio. Structurally organize these thoughts into a Mind Map JSON with a 'root' object containing 'id', 'label', 'details', 'category', and 'children' array."
+            text: `Listen to this audio. ${STRUCTURE_INSTRUCTION}`
           }
-        ]
-      },
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-        responseMimeType: 'application/json',
-        thinkingConfig: {
-          thinkingBudget: 32768 
-        }
-      }
-    });
+        ],
+        withProfile(SYSTEM_PROMPT, options?.profile),
+        buildMapSchema(depthFor(options?.profile)),
+        parseMindMap,
+        options
+      );
+
+    } catch (error) {
+      console.error("Gemini processing error:", error);
+      throw error;
+    }
+  };
+
+  const appendFromAudio = async (audioBlob: Blob, existing: MindMapData, options?: RequestOptions): Promise<MindMapUpdate> => {
+    try {
+      const base64Audio = await blobToBase64(audioBlob);
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No text response from Gemini");
+      return await generateJson(
+        [
+          {
+            text: `Current mind map:\n${JSON.stringify({ root: toPromptTree(existing.root) })}`
+          },
+          {
+            inlineData: {
+              mimeType: audioBlob.type || 'audio/webm',
+              data: base64Audio
+            }
+          },
+          {
+            text: "Listen to this new audio and return only the additions and moves needed to extend the current mind map."
+          }
+        ],
+        withProfile(APPEND_PROMPT, options?.profile),
+        buildUpdateSchema(depthFor(options?.profile)),
+        parseUpdate,
+        options
+      );
 
-    const parsedData = JSON.parse(jsonText) as MindMapData;
-    
-    // Basic validation
-    if (!parsedData.root) {
-      throw new Error("Invalid JSON structure: missing root");
+    } catch (error) {
+      console.error("Gemini append error:", error);
+      throw error;
     }
+  };
 
-    // Recursively add timestamps if missing
-    const augmentNode = (node: any) => {
-      if (!node.createdAt) node.createdAt = Date.now();
-      if (node.children) node.children.forEach(augmentNode);
-    };
-    augmentNode(parsedData.root);
+  const structureFromText = async (text: string, options?: RequestOptions): Promise<MindMapData> => {
+    try {
+      return await generateJson(
+        [
+          {
+            text: `Transcript:\n${text}`
+          },
+          {
+            text: `Read this transcript. ${STRUCTURE_INSTRUCTION}`
+          }
+        ],
+        withProfile(SYSTEM_PROMPT, options?.profile),
+        buildMapSchema(depthFor(options?.profile)),
+        parseMindMap,
+        options
+      );
 
-    return parsedData;
+    } catch (error) {
+      console.error("Gemini processing error:", error);
+      throw error;
+    }
+  };
 
-  } catch (error) {
-    console.error("Gemini processing error:", error);
-    throw error;
-  }
-};
+  // --- Grounding Services ---
+
+  const enrichWithSearch = async (query: string): Promise<EnrichmentResult> => {
+    try {
+      const response = await ai.models.generateContent({
+        model: MODELS.search,
+        contents: `Search for "${query}". Provide a 1-sentence summary of key facts.`,
+        config: {
+          tools: [{ googleSearch: {} }]
+        }
+      });
 
-// --- Grounding Services ---
+      const text = response.text || "";
+      // Extract grounding URLs
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const links = chunks
+        .filter((c: any) => c.web?.uri)
+        .map((c: any) => ({ title: c.web.title || 'Source', url: c.web.uri }));
 
-export interface EnrichmentResult {
-  text: string;
-  links: { title: string; url: string }[];
-}
+      return { text, links };
+    } catch (e) {
+      console.error("Search Grounding Error", e);
+      throw e;
+    }
+  };
 
-export const enrichWithGoogleSearch = async (query: string): Promise<EnrichmentResult> => {
-  try {
-    // gemini-3-flash-preview allows googleSearch tool
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Search for "${query}". Provide a 1-sentence summary of key facts.`,
-      config: {
-        tools: [{ googleSearch: {} }]
+  const enrichWithMaps = async (query: string, userLocation?: { lat: number, lng: number }): Promise<EnrichmentResult> => {
+    try {
+      const config: any = {
+        tools: [{ googleMaps: {} }]
+      };
+
+      if (userLocation) {
+          config.toolConfig = {
+              retrievalConfig: {
+                  latLng: {
+                      latitude: userLocation.lat,
+                      longitude: userLocation.lng
+                  }
+              }
+          };
       }
-    });
-
-    const text = response.text || "";
-    // Extract grounding URLs
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const links = chunks
-      .filter((c: any) => c.web?.uri)
-      .map((c: any) => ({ title: c.web.title || 'Source', url: c.web.uri }));
-
-    return { text, links };
-  } catch (e) {
-    console.error("Search Grounding Error", e);
-    throw e;
-  }
-};
 
-export const enrichWithGoogleMaps = async (query: string, userLocation?: { lat: number, lng: number }): Promise<EnrichmentResult> => {
-  try {
-    // gemini-2.5-flash allows googleMaps tool
-    const config: any = {
-      tools: [{ googleMaps: {} }]
-    };
+      const response = await ai.models.generateContent({
+        model: MODELS.maps,
+        contents: `Find "${query}". Provide the address, rating, and a brief review snippet if available.`,
+        config: config
+      });
 
-    if (userLocation) {
-        config.toolConfig = {
-            retrievalConfig: {
-                latLng: {
-                    latitude: userLocation.lat,
-                    longitude: userLocation.lng
-                }
-            }
-        };
-    }
+      const text = response.text || "";
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Find "${query}". Provide the address, rating, and a brief review snippet if available.`,
-      config: config
-    });
-
-    const text = response.text || "";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    
-    // Maps grounding chunks structure
-    const links: { title: string; url: string }[] = [];
-    chunks.forEach((c: any) => {
-        if (c.maps?.uri) {
-            links.push({ title: c.maps.title || 'Google Maps', url: c.maps.uri });
-        }
-    });
+      // Maps grounding chunks structure
+      const links: { title: string; url: string }[] = [];
+      chunks.forEach((c: any) => {
+          if (c.maps?.uri) {
+              links.push({ title: c.maps.title || 'Google Maps', url: c.maps.uri });
+          }
+      });
 
-    return { text, links };
-  } catch (e) {
-    console.error("Maps Grounding Error", e);
-    throw e;
-  }
+      return { text, links };
+    } catch (e) {
+      console.error("Maps Grounding Error", e);
+      throw e;
+    }
+  };
+
+  return {
+    name: 'gemini',
+    structureFromAudio,
+    appendFromAudio,
+    structureFromText,
+    enrichWithSearch,
+    enrichWithMaps,
+  };
 };
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -156,4 +410,4 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
     };
     reader.onerror = reject;
   });
-};
\ No newline at end of file
+};
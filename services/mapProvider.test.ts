@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { appendToMindMapFromAudio, generateMindMapFromText, MindMapProvider, setProvider } from './mapProvider';
+import { MAX_TREE_DEPTH } from '../utils/mapValidation';
+import { BUILT_IN_PROFILES } from '../utils/profiles';
+import { MindMapData, MindMapNode } from '../types';
+
+// A single chain of nodes `levels` deep below the returned node
+const chain = (prefix: string, levels: number): MindMapNode => ({
+  id: `${prefix}0`,
+  label: `${prefix} 0`,
+  ...(levels > 0 ? { children: [{ ...chain(prefix, levels - 1), id: `${prefix}${levels}`, label: `${prefix} ${levels}` }] } : {}),
+});
+
+const depthOf = (node: MindMapNode): number => Math.max(0, ...(node.children || []).map(child => depthOf(child) + 1));
+
+const stubProvider = (overrides: Partial<MindMapProvider>): MindMapProvider => ({
+  name: 'stub',
+  structureFromAudio: async () => { throw new Error('not stubbed'); },
+  appendFromAudio: async () => { throw new Error('not stubbed'); },
+  structureFromText: async () => { throw new Error('not stubbed'); },
+  enrichWithSearch: async () => ({ text: '', links: [] }),
+  enrichWithMaps: async () => ({ text: '', links: [] }),
+  ...overrides,
+});
+
+const shallowProfile = { ...BUILT_IN_PROFILES[0], maxDepth: 2 };
+
+describe('generation depth', () => {
+  it('treats the profile depth as a hint and only cuts generated maps at MAX_TREE_DEPTH', async () => {
+    setProvider(stubProvider({ structureFromText: async () => ({ root: chain('n', MAX_TREE_DEPTH + 3) }) }));
+    const data = await generateMindMapFromText('notes', { profile: shallowProfile });
+    expect(depthOf(data.root)).toBe(MAX_TREE_DEPTH);
+  });
+
+  it('cuts appended branches to the levels left below their parent', async () => {
+    const existing: MindMapData = { root: { id: 'root', label: 'Map', children: [{ id: 'deep', label: 'Deep' }] } };
+    setProvider(stubProvider({
+      appendFromAudio: async () => ({
+        additions: [
+          { parentId: 'deep', node: chain('a', MAX_TREE_DEPTH) },
+          { parentId: 'a0', node: chain('b', 3) },
+        ],
+        moves: [],
+      }),
+    }));
+    const data = await appendToMindMapFromAudio(new Blob(['audio'], { type: 'audio/webm' }), existing, { profile: shallowProfile });
+    expect(depthOf(data.root)).toBe(MAX_TREE_DEPTH);
+    expect(depthOf(data.root.children![0])).toBe(MAX_TREE_DEPTH - 1);
+  });
+});
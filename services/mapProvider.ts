@@ -0,0 +1,262 @@
+import { MindMapData, MindMapNode, MindMapUpdate, TranscriptSentence } from "../types";
+import { createMockProvider } from "./mockProvider";
+import { splitAudioForUpload } from "../utils/audioUtils";
+import { mergeMindMapUpdate, mergeSegmentMaps } from "../utils/treeUtils";
+import { MAX_TREE_DEPTH, normalizeMindMap, normalizeTranscript, validateMindMap } from "../utils/mapValidation";
+import { GenerationProfile } from "../utils/profiles";
+
+// --- Provider Contract ---
+
+export interface EnrichmentResult {
+  text: string;
+  links: { title: string; url: string }[];
+}
+
+export interface RequestOptions {
+  // Changes the structuring rules, preferred categories and depth
+  profile?: GenerationProfile;
+  // Aborts the in-flight request; the returned promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Receives the raw, partially parsed JSON document as it streams in
+  onPartial?: (partial: unknown) => void;
+}
+
+export interface MindMapProvider {
+  name: string;
+  // Structure a recording into a brand new map. The blob's type carries the real MIME type.
+  structureFromAudio: (audioBlob: Blob, options?: RequestOptions) => Promise<MindMapData>;
+  // Structure a recording into additions/moves for an existing map
+  appendFromAudio: (audioBlob: Blob, existing: MindMapData, options?: RequestOptions) => Promise<MindMapUpdate>;
+  // Structure plain text (notes, transcripts) into a brand new map
+  structureFromText: (text: string, options?: RequestOptions) => Promise<MindMapData>;
+  enrichWithSearch: (query: string) => Promise<EnrichmentResult>;
+  enrichWithMaps: (query: string, userLocation?: { lat: number, lng: number }) => Promise<EnrichmentResult>;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+// --- Provider Selection ---
+
+// MAP_PROVIDER wins when set; otherwise fall back to the mock when no API key is configured
+export const resolveProviderName = (): ProviderName => {
+  const configured = (process.env.MAP_PROVIDER || '').toLowerCase();
+  if (configured === 'gemini' || configured === 'mock') return configured;
+  return process.env.GEMINI_API_KEY ? 'gemini' : 'mock';
+};
+
+let provider: MindMapProvider | null = null;
+
+// The Gemini SDK is the largest dependency, so it is only downloaded once a request needs it
+export const getProvider = async (): Promise<MindMapProvider> => {
+  if (!provider) {
+    if (resolveProviderName() === 'mock') {
+      provider = createMockProvider();
+    } else {
+      const { createGeminiProvider } = await import('./geminiService');
+      provider ??= createGeminiProvider({ schemaDepth: Number(process.env.MAP_SCHEMA_DEPTH) || undefined });
+    }
+  }
+  return provider;
+};
+
+// Swap the active provider at runtime (e.g. for local development)
+export const setProvider = (next: MindMapProvider) => {
+  provider = next;
+};
+
+// --- Public API ---
+
+// Recursively add timestamps if missing
+const augmentNode = (node: MindMapNode, now: number) => {
+  if (!node.createdAt) node.createdAt = now;
+  if (node.children) node.children.forEach(child => augmentNode(child, now));
+};
+
+// Spans from the model are relative to the segment it heard; shift them onto the full
+// recording and tie them to the stored copy of it
+const anchorAudio = (node: MindMapNode, offset: number, recordingId?: string) => {
+  if (node.audio) {
+    node.audio = {
+      start: node.audio.start + offset,
+      end: node.audio.end + offset,
+      ...(recordingId ? { recordingId } : {}),
+    };
+  }
+  node.children?.forEach(child => anchorAudio(child, offset, recordingId));
+};
+
+// Sentence ids are only unique within one response; prefix them so the transcripts of
+// several segments and recordings can live in one map
+const scopeTranscript = (roots: MindMapNode[], transcript: TranscriptSentence[]): TranscriptSentence[] => {
+  const scope = crypto.randomUUID().slice(0, 8);
+  const visit = (node: MindMapNode) => {
+    if (node.sentenceIds) node.sentenceIds = node.sentenceIds.map(id => `${scope}-${id}`);
+    node.children?.forEach(visit);
+  };
+  roots.forEach(visit);
+  return transcript.map(sentence => ({ ...sentence, id: `${scope}-${sentence.id}` }));
+};
+
+const withScopedTranscript = (data: MindMapData): MindMapData =>
+  data.transcript ? { ...data, transcript: scopeTranscript([data.root], data.transcript) } : data;
+
+// Levels below the root of every node in the tree
+const nodeDepths = (node: MindMapNode, depth = 0, depths = new Map<string, number>()): Map<string, number> => {
+  depths.set(node.id, depth);
+  node.children?.forEach(child => nodeDepths(child, depth + 1, depths));
+  return depths;
+};
+
+// Validate each added subtree on its own, against the transcript of the same response, and cut it
+// to the levels left below its parent so the merged map stays within MAX_TREE_DEPTH like generated
+// maps do; ID collisions with the existing map are resolved by the merge
+const normalizeUpdate = (update: MindMapUpdate, existing: MindMapData, log = true): MindMapUpdate => {
+  const transcript = normalizeTranscript(update.transcript);
+  const depths = nodeDepths(existing.root);
+  const additions = (update.additions || [])
+    .filter(addition => addition && typeof addition.node === 'object' && addition.node !== null)
+    .map(addition => {
+      const parentId = String(addition.parentId);
+      // Unknown parents are attached to the root by the merge
+      const depth = (depths.get(parentId) ?? 0) + 1;
+      const options = { maxDepth: Math.max(0, MAX_TREE_DEPTH - depth) };
+      const node = log
+        ? normalizeMindMap({ root: addition.node, transcript }, 'model output', options).root
+        : validateMindMap({ root: addition.node, transcript }, options).data.root;
+      // Later additions may hang off this one
+      nodeDepths(node, depth, depths);
+      return { parentId, node };
+    });
+  return {
+    additions,
+    moves: (update.moves || []).filter(move => move && move.id && move.newParentId),
+    // Endpoints are checked against the merged tree in mergeMindMapUpdate
+    ...(Array.isArray(update.crossLinks)
+      ? {
+          crossLinks: update.crossLinks
+            .filter(link => link && link.source && link.target)
+            .map(link => ({
+              id: '',
+              source: String(link.source),
+              target: String(link.target),
+              ...(typeof link.label === 'string' && link.label.trim() ? { label: link.label.trim() } : {}),
+            })),
+        }
+      : {}),
+    ...(transcript.length > 0 ? { transcript: scopeTranscript(additions.map(addition => addition.node), transcript) } : {}),
+  };
+};
+
+// Nodes still streaming in may not have a label yet; hide them until they do
+const pruneUnlabeled = (node: any): any => {
+  if (!node || typeof node !== 'object' || typeof node.label !== 'string' || !node.label.trim()) return null;
+  const children = Array.isArray(node.children) ? node.children.map(pruneUnlabeled).filter(Boolean) : undefined;
+  return { ...node, children };
+};
+
+// Turns a partially streamed map document into a displayable map, or null if nothing usable arrived yet
+const partialToMap = (partial: unknown): MindMapData | null => {
+  const root = pruneUnlabeled((partial as any)?.root);
+  if (!root) return null;
+  try {
+    return validateMindMap({ root }).data;
+  } catch (e) {
+    return null;
+  }
+};
+
+const partialToUpdate = (partial: unknown, existing: MindMapData): MindMapUpdate | null => {
+  const additions = (partial as any)?.additions;
+  if (!Array.isArray(additions)) return null;
+  return normalizeUpdate({
+    additions: additions
+      .map((a: any) => ({ parentId: a?.parentId, node: pruneUnlabeled(a?.node) }))
+      .filter((a: any) => a.parentId && a.node),
+    moves: [],
+  }, existing, false);
+};
+
+export interface GenerationOptions {
+  profile?: GenerationProfile;
+  signal?: AbortSignal;
+  // Reports segment progress for long recordings that are structured in several requests
+  onProgress?: (completed: number, total: number) => void;
+  // Receives the best-effort map built so far while the response streams in
+  onPartial?: (data: MindMapData) => void;
+  // Library id the source recording is saved under, attached to every node's audio span
+  recordingId?: string;
+}
+
+// Long recordings are split into segments, structured one by one and merged into a single tree
+export const generateMindMapFromAudio = async (audioBlob: Blob, options: GenerationOptions = {}): Promise<MindMapData> => {
+  const { profile, signal, onProgress, onPartial, recordingId } = options;
+  const active = await getProvider();
+  const segments = await splitAudioForUpload(audioBlob);
+  const maps: MindMapData[] = [];
+  for (const segment of segments) {
+    const raw = await active.structureFromAudio(segment.blob, {
+      profile,
+      signal,
+      onPartial: onPartial && (partial => {
+        const current = partialToMap(partial);
+        if (current) onPartial(maps.length === 0 ? current : mergeSegmentMaps([...maps, current]));
+      }),
+    });
+    const map = withScopedTranscript(normalizeMindMap(raw, 'model output'));
+    anchorAudio(map.root, segment.startTime, recordingId);
+    maps.push(map);
+    onProgress?.(maps.length, segments.length);
+  }
+
+  const data = maps.length === 1 ? maps[0] : mergeSegmentMaps(maps);
+  augmentNode(data.root, Date.now());
+  return data;
+};
+
+// Each segment is appended to the result of the previous one, so later segments see earlier additions
+export const appendToMindMapFromAudio = async (audioBlob: Blob, existing: MindMapData, options: GenerationOptions = {}): Promise<MindMapData> => {
+  const { profile, signal, onProgress, onPartial, recordingId } = options;
+  const active = await getProvider();
+  const segments = await splitAudioForUpload(audioBlob);
+  let data = existing;
+  for (let i = 0; i < segments.length; i++) {
+    const base = data;
+    const update: MindMapUpdate = await active.appendFromAudio(segments[i].blob, base, {
+      profile,
+      signal,
+      onPartial: onPartial && (partial => {
+        const current = partialToUpdate(partial, base);
+        if (current) onPartial(mergeMindMapUpdate(base, current));
+      }),
+    });
+    const normalized = normalizeUpdate(update, base);
+    normalized.additions.forEach(addition => anchorAudio(addition.node, segments[i].startTime, recordingId));
+    data = mergeMindMapUpdate(base, normalized);
+    onProgress?.(i + 1, segments.length);
+  }
+  return data;
+};
+
+export const generateMindMapFromText = async (text: string, options: GenerationOptions = {}): Promise<MindMapData> => {
+  const { profile, signal, onPartial } = options;
+  const active = await getProvider();
+  const raw = await active.structureFromText(text, {
+    profile,
+    signal,
+    onPartial: onPartial && (partial => {
+      const current = partialToMap(partial);
+      if (current) onPartial(current);
+    }),
+  });
+  const data = withScopedTranscript(normalizeMindMap(raw, 'model output'));
+  augmentNode(data.root, Date.now());
+  return data;
+};
+
+export const enrichWithGoogleSearch = async (query: string): Promise<EnrichmentResult> => {
+  return (await getProvider()).enrichWithSearch(query);
+};
+
+export const enrichWithGoogleMaps = async (query: string, userLocation?: { lat: number, lng: number }): Promise<EnrichmentResult> => {
+  return (await getProvider()).enrichWithMaps(query, userLocation);
+};
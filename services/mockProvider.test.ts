@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { generateMindMapFromText, setProvider } from './mapProvider';
+import { collectSubtreeIds } from '../utils/treeUtils';
+import { MindMapNode } from '../types';
+
+const NOTES = 'Kickoff meeting. Need to confirm the budget. Who owns the launch? Ship 3 features by May. Collect feedback.';
+
+const collectSentenceIds = (node: MindMapNode): string[] => [
+  ...(node.sentenceIds || []),
+  ...(node.children || []).flatMap(collectSentenceIds),
+];
+
+describe('mock provider', () => {
+  it('structures the same text into the same map', async () => {
+    const provider = createMockProvider();
+    const [first, second] = await Promise.all([provider.structureFromText(NOTES), provider.structureFromText(NOTES)]);
+    expect(first).toEqual(second);
+    expect(first.root.label).toBe('Kickoff meeting');
+    expect(first.transcript).toHaveLength(5);
+  });
+
+  it('streams partial documents before resolving', async () => {
+    const partials: unknown[] = [];
+    await createMockProvider().structureFromText(NOTES, { onPartial: partial => partials.push(partial) });
+    expect(partials.length).toBeGreaterThan(1);
+  });
+
+  it('rejects with an AbortError once cancelled', async () => {
+    const controller = new AbortController();
+    const pending = createMockProvider().structureFromText(NOTES, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('generateMindMapFromText with the mock provider', () => {
+  it('returns a validated map whose nodes cite sentences of its transcript', async () => {
+    setProvider(createMockProvider());
+    const data = await generateMindMapFromText(NOTES);
+
+    const ids = collectSubtreeIds(data.root);
+    expect(new Set(ids).size).toBe(ids.length);
+    const sentenceIds = new Set(data.transcript!.map(sentence => sentence.id));
+    expect(collectSentenceIds(data.root).every(id => sentenceIds.has(id))).toBe(true);
+    expect(data.root.createdAt).toBeTypeOf('number');
+  });
+});
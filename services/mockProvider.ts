@@ -0,0 +1,205 @@
+import { MindMapData, MindMapNode, MindMapUpdate, NodeCategory, TranscriptSentence } from "../types";
+import { parsePartialJson } from "../utils/partialJson";
+import type { EnrichmentResult, MindMapProvider, RequestOptions } from "./mapProvider";
+
+// Offline, deterministic provider for UI development without an API key or network.
+// The same input always produces the same map.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_STEPS = 8;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+};
+
+// Replays the final result as a JSON stream so progressive rendering and cancel can be exercised offline
+const streamResult = async <T>(result: T, { signal, onPartial }: RequestOptions = {}): Promise<T> => {
+  const json = JSON.stringify(result);
+  for (let step = 1; step <= MOCK_STREAM_STEPS; step++) {
+    await delay(MOCK_LATENCY_MS / 2);
+    throwIfAborted(signal);
+    const partial = parsePartialJson(json.slice(0, Math.ceil(json.length * step / MOCK_STREAM_STEPS)));
+    if (partial && onPartial) onPartial(partial);
+  }
+  return result;
+};
+
+// Small stable string hash (FNV-1a) used to seed node IDs
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const createIdFactory = (seed: string) => {
+  let counter = 0;
+  return () => `mock-${seed}-${counter++}`;
+};
+
+const guessCategory = (sentence: string): NodeCategory => {
+  const lower = sentence.toLowerCase();
+  if (/[?？]\s*$/.test(sentence)) return 'question';
+  if (/^(todo|need to|we need|must|should|let's|please)\b|需要|要做|记得/.test(lower)) return 'task';
+  if (/\d/.test(sentence)) return 'fact';
+  return 'idea';
+};
+
+const toLabel = (sentence: string) => {
+  const words = sentence.replace(/[.!?。！？]+$/, '').split(/\s+/);
+  return words.length > 5 ? words.slice(0, 5).join(' ') + '…' : words.join(' ');
+};
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/\n+|(?<=[.!?。！？])\s+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+// Every sentence becomes one node and one transcript sentence. With a recording length the
+// sentences are spread evenly over the recording and alternate between two speakers.
+const buildTextTree = (text: string, nextId: () => string, recordingSeconds?: number): MindMapData => {
+  const sentences = splitSentences(text);
+  const [first = 'Untitled', ...rest] = sentences;
+  const transcript: TranscriptSentence[] = sentences.map((sentence, index) => ({
+    id: `s${index + 1}`,
+    text: sentence,
+    ...(recordingSeconds ? { speaker: `Speaker ${(index % 2) + 1}` } : {}),
+  }));
+  const sourceOf = (index: number) => ({
+    sentenceIds: [`s${index + 1}`],
+    ...(recordingSeconds
+      ? { audio: { start: index * recordingSeconds / sentences.length, end: (index + 1) * recordingSeconds / sentences.length } }
+      : {}),
+  });
+
+  // Group every three sentences into a branch so the mock has some depth
+  const branches: MindMapNode[] = [];
+  for (let i = 0; i < rest.length; i += 3) {
+    const [head, ...leaves] = rest.slice(i, i + 3);
+    branches.push({
+      id: nextId(),
+      label: toLabel(head),
+      details: head.length > 40 ? head : undefined,
+      category: guessCategory(head),
+      ...sourceOf(i + 1),
+      children: leaves.map((leaf, j) => ({
+        id: nextId(),
+        label: toLabel(leaf),
+        details: leaf.length > 40 ? leaf : undefined,
+        category: guessCategory(leaf),
+        ...sourceOf(i + j + 2),
+      })),
+    });
+  }
+
+  const root: MindMapNode = {
+    id: nextId(),
+    label: toLabel(first),
+    category: 'idea',
+    ...sourceOf(0),
+    children: branches,
+  };
+  return { root, ...(sentences.length > 0 ? { transcript } : {}) };
+};
+
+// Re-labels generic ideas with the profile's preferred category so profile switches are visible offline
+const applyProfile = (node: MindMapNode, options?: RequestOptions): MindMapNode => {
+  const preferred = options?.profile?.defaultCategories;
+  if (!preferred || preferred.length === 0 || preferred.includes('idea')) return node;
+  const relabel = (n: MindMapNode): MindMapNode => ({
+    ...n,
+    category: n.category === 'idea' ? preferred[0] : n.category,
+    children: n.children?.map(relabel),
+  });
+  return relabel(node);
+};
+
+const audioSignature = (audioBlob: Blob) => `${audioBlob.size}:${audioBlob.type}`;
+
+// Rough length of a recording, assuming ~16KB per second
+const estimateSeconds = (audioBlob: Blob) => Math.max(1, Math.round(audioBlob.size / 16000));
+
+export const createMockProvider = (): MindMapProvider => {
+  const structureFromAudio = async (audioBlob: Blob, options?: RequestOptions): Promise<MindMapData> => {
+    const nextId = createIdFactory(hashString(audioSignature(audioBlob)));
+    const seconds = estimateSeconds(audioBlob);
+    const text = [
+      'Mock recording session',
+      'Plan the next milestone.',
+      'Need to confirm the budget with finance.',
+      'Who owns the launch checklist?',
+      `The recording is about ${seconds} seconds long.`,
+      'Collect feedback from early users.',
+      'Should we run a beta first?',
+    ].join('\n');
+    const map = buildTextTree(text, nextId, seconds);
+    return streamResult({ ...map, root: applyProfile(map.root, options) }, options);
+  };
+
+  const appendFromAudio = async (audioBlob: Blob, existing: MindMapData, options?: RequestOptions): Promise<MindMapUpdate> => {
+    const nextId = createIdFactory(hashString(audioSignature(audioBlob) + existing.root.id));
+    const branchCount = existing.root.children?.length || 0;
+    const third = estimateSeconds(audioBlob) / 3;
+    return streamResult<MindMapUpdate>({
+      transcript: [
+        { id: 's1', speaker: 'Speaker 1', text: `Let's pick this up again as follow-up ${branchCount + 1}.` },
+        { id: 's2', speaker: 'Speaker 2', text: 'We should review the open questions.' },
+        { id: 's3', speaker: 'Speaker 1', text: 'And share the notes with the team afterwards.' },
+      ],
+      additions: [
+        {
+          parentId: existing.root.id,
+          node: {
+            id: nextId(),
+            label: `Follow-up ${branchCount + 1}`,
+            category: 'idea',
+            audio: { start: 0, end: third },
+            sentenceIds: ['s1'],
+            children: [
+              { id: nextId(), label: 'Review open questions', category: 'task', audio: { start: third, end: 2 * third }, sentenceIds: ['s2'] },
+              { id: nextId(), label: 'Share notes with team', category: 'task', audio: { start: 2 * third, end: 3 * third }, sentenceIds: ['s3'] },
+            ],
+          },
+        },
+      ],
+      moves: [],
+    }, options);
+  };
+
+  const structureFromText = async (text: string, options?: RequestOptions): Promise<MindMapData> => {
+    const nextId = createIdFactory(hashString(text));
+    const map = buildTextTree(text, nextId);
+    return streamResult({ ...map, root: applyProfile(map.root, options) }, options);
+  };
+
+  const enrichWithSearch = async (query: string): Promise<EnrichmentResult> => {
+    await delay(MOCK_LATENCY_MS);
+    return {
+      text: `Mock search summary for "${query}".`,
+      links: [{ title: `${query} (mock)`, url: `https://example.com/search?q=${encodeURIComponent(query)}` }],
+    };
+  };
+
+  const enrichWithMaps = async (query: string, userLocation?: { lat: number, lng: number }): Promise<EnrichmentResult> => {
+    await delay(MOCK_LATENCY_MS);
+    const near = userLocation ? ` near ${userLocation.lat.toFixed(2)}, ${userLocation.lng.toFixed(2)}` : '';
+    return {
+      text: `Mock place result for "${query}"${near}. Rating 4.5.`,
+      links: [{ title: 'Example Maps', url: `https://example.com/maps?q=${encodeURIComponent(query)}` }],
+    };
+  };
+
+  return {
+    name: 'mock',
+    structureFromAudio,
+    appendFromAudio,
+    structureFromText,
+    enrichWithSearch,
+    enrichWithMaps,
+  };
+};
@@ -1,9 +1,39 @@
 export interface MindMapData {
   root: MindMapNode;
+  // Relationships between arbitrary nodes, outside the parent/child hierarchy
+  crossLinks?: CrossLink[];
+  // What was said, in order, across every recording or text the map was structured from
+  transcript?: TranscriptSentence[];
+}
+
+// Consecutive sentences by the same speaker form one speaker turn
+export interface TranscriptSentence {
+  id: string;
+  text: string;
+  speaker?: string;
+}
+
+export type CrossLinkStyle = 'dashed' | 'dotted' | 'solid';
+
+export interface CrossLink {
+  id: string;
+  source: string; // node ID
+  target: string; // node ID
+  label?: string; // e.g. "depends on", "contradicts"
+  style?: CrossLinkStyle;
+  color?: string;
 }
 
 export type NodeCategory = 'idea' | 'task' | 'question' | 'fact';
 
+// Where a node was said in its source recording, in seconds from the start of that recording
+export interface AudioSpan {
+  start: number;
+  end: number;
+  // Recording kept in the map library; spans without one cannot be played back
+  recordingId?: string;
+}
+
 export interface MindMapNode {
   id: string; // unique identifier
   label: string;
@@ -19,6 +49,20 @@ export interface MindMapNode {
     fontFamily?: 'sans' | 'serif' | 'mono';
   };
   createdAt?: number;
+  // Fold state: children stay in the tree but are hidden on the canvas
+  collapsed?: boolean;
+  audio?: AudioSpan;
+  // Transcript sentences the node was derived from
+  sentenceIds?: string[];
+}
+
+// Incremental changes returned by the model when appending a new recording
+export interface MindMapUpdate {
+  additions: { parentId: string; node: MindMapNode }[];
+  moves?: { id: string; newParentId: string }[];
+  crossLinks?: CrossLink[];
+  // Transcript of the new recording; node sentenceIds refer to it
+  transcript?: TranscriptSentence[];
 }
 
 // Flattened node for React Flow
@@ -37,12 +81,34 @@ export interface FlowNode {
         fontFamily?: 'sans' | 'serif' | 'mono';
     };
     createdAt?: number;
+    collapsed?: boolean;
+    childCount?: number;
+    // Root in the two-sided mind map layout, which needs a second source handle
+    twoSided?: boolean;
+    audio?: AudioSpan;
+    isPlaying?: boolean;
+    sentenceIds?: string[];
+    // Derived from the transcript sentence hovered in the transcript panel
+    isSourceHighlight?: boolean;
+    // Changes whenever the node should enter rename mode
+    editRequest?: number;
     // Callbacks for interactivity
     onDataChange?: (id: string, patch: any) => void;
     onAddChild?: (parentId: string) => void;
     onDelete?: (id: string) => void;
+    onDeletePromote?: (id: string) => void;
+    onToggleCollapse?: (id: string) => void;
+    onMoveSibling?: (id: string, offset: number) => void;
+    onCut?: (id: string) => void;
+    onCopy?: (id: string) => void;
+    onPaste?: (parentId: string) => void;
+    canPaste?: boolean;
+    isRoot?: boolean;
+    hasChildren?: boolean;
+    isDropTarget?: boolean;
     onEnrichSearch?: (id: string, label: string) => Promise<void>;
     onEnrichMaps?: (id: string, label: string) => Promise<void>;
+    onPlayAudio?: (id: string) => void;
   };
   type?: string;
 }
@@ -62,4 +128,25 @@ export interface HistoryItem {
   timestamp: number;
   data: MindMapData;
   previewLabel: string;
+  // Serialized size in bytes
+  size?: number;
+  // Organisation in My Maps; kept across saves
+  tags?: string[];
+  folder?: string;
+  pinned?: boolean;
+}
+
+export type HistoryItemMeta = Pick<HistoryItem, 'tags' | 'folder' | 'pinned'>;
+
+// What caused a snapshot to be added to a map's revision list
+export type RevisionReason = 'generation' | 'enrichment' | 'save' | 'import' | 'restore';
+
+export interface MapRevision {
+  id: string;
+  // HistoryItem id of the map this revision belongs to
+  mapId: string;
+  timestamp: number;
+  reason: RevisionReason;
+  data: MindMapData;
+  size: number;
 }
\ No newline at end of file
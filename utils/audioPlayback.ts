@@ -0,0 +1,119 @@
+import { AudioSpan } from '../types';
+import { getRecording } from './mapLibrary';
+
+// --- Source Audio Playback ---
+// One shared <audio> element plays node spans from recordings in the map library.
+// Starting a new span stops the previous one.
+
+// Spans the model marks as a single instant still play a short snippet
+const MIN_SPAN_SECONDS = 1;
+// Upper bound for the duration scan below, so a stuck element cannot block playback
+const DURATION_SCAN_TIMEOUT_MS = 3000;
+
+let player: HTMLAudioElement | null = null;
+let current: { end: number; onEnd: () => void } | null = null;
+// Guards against an older request finishing its library lookup after a newer one started
+let requestCounter = 0;
+// Only the recording in the player keeps an object URL; `seekable` is set once its duration is known
+let loaded: { recordingId: string; url: string; seekable: boolean } | null = null;
+
+export const stopAudio = () => {
+  const playing = current;
+  current = null;
+  player?.pause();
+  playing?.onEnd();
+};
+
+const getPlayer = (): HTMLAudioElement => {
+  if (!player) {
+    player = new Audio();
+    player.addEventListener('timeupdate', () => {
+      if (current && player!.currentTime >= current.end) stopAudio();
+    });
+    player.addEventListener('ended', stopAudio);
+  }
+  return player;
+};
+
+// Unloads the current recording and revokes its object URL so the blob can be freed
+const unloadRecording = () => {
+  if (!loaded) return;
+  if (player) {
+    player.removeAttribute('src');
+    player.load();
+  }
+  URL.revokeObjectURL(loaded.url);
+  loaded = null;
+};
+
+const loadRecording = async (recordingId: string): Promise<typeof loaded> => {
+  if (loaded?.recordingId === recordingId) return loaded;
+  const blob = await getRecording(recordingId);
+  if (!blob) return null;
+  unloadRecording();
+  loaded = { recordingId, url: URL.createObjectURL(blob), seekable: false };
+  return loaded;
+};
+
+const waitForEvent = (audio: HTMLAudioElement, event: string, done: () => boolean, timeoutMs: number) =>
+  new Promise<void>(resolve => {
+    const finish = () => {
+      if (!done()) return;
+      clearTimeout(timer);
+      audio.removeEventListener(event, finish);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      audio.removeEventListener(event, finish);
+      resolve();
+    }, timeoutMs);
+    audio.addEventListener(event, finish);
+    finish();
+  });
+
+// MediaRecorder WebM files carry no duration or cues, so Chrome ignores seeks into them (or jumps
+// back to 0) until it has scanned to the end once. Seeking far past the end forces that scan.
+const ensureSeekable = async (audio: HTMLAudioElement) => {
+  await waitForEvent(audio, 'loadedmetadata', () => audio.readyState >= HTMLMediaElement.HAVE_METADATA, DURATION_SCAN_TIMEOUT_MS);
+  if (Number.isFinite(audio.duration)) return;
+  audio.currentTime = Number.MAX_SAFE_INTEGER;
+  await waitForEvent(audio, 'durationchange', () => Number.isFinite(audio.duration), DURATION_SCAN_TIMEOUT_MS);
+  audio.currentTime = 0;
+};
+
+/**
+ * Plays one span of a stored recording. `onEnd` runs when the span finishes, is stopped or is
+ * replaced by another span. Resolves to false when the recording is not in the library.
+ */
+export const playAudioSpan = async (span: AudioSpan, onEnd: () => void): Promise<boolean> => {
+  stopAudio();
+  const request = ++requestCounter;
+  if (!span.recordingId) return false;
+  const recording = await loadRecording(span.recordingId);
+  if (request !== requestCounter) return true;
+  if (!recording) return false;
+
+  const audio = getPlayer();
+  if (audio.src !== recording.url) audio.src = recording.url;
+  if (!recording.seekable) {
+    await ensureSeekable(audio);
+    if (request !== requestCounter) return true;
+    recording.seekable = true;
+  }
+  audio.currentTime = span.start;
+  current = { end: Math.max(span.end, span.start + MIN_SPAN_SECONDS), onEnd };
+  try {
+    await audio.play();
+  } catch (e) {
+    current = null;
+    throw e;
+  }
+  return true;
+};
+
+// Call after recordings are deleted from the library, so a deleted one is not kept alive by the player
+export const releaseRecordings = (recordingIds: string[]) => {
+  if (!loaded || !recordingIds.includes(loaded.recordingId)) return;
+  stopAudio();
+  unloadRecording();
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { detectAudioMimeType, normalizeMimeType } from './audioUtils';
+
+const bytes = (...parts: (string | number[])[]) => new Uint8Array(parts.flatMap(part =>
+  typeof part === 'string' ? Array.from(part, c => c.charCodeAt(0)) : part,
+));
+
+describe('detectAudioMimeType', () => {
+  it('recognizes formats by their magic bytes', async () => {
+    const cases: [Uint8Array, string][] = [
+      [bytes('ID3', [4, 0, 0]), 'audio/mp3'],
+      [bytes([0xff, 0xfb, 0x90, 0x64]), 'audio/mp3'],
+      [bytes([0xff, 0xf1, 0x50, 0x80]), 'audio/aac'],
+      [bytes('RIFF', [0, 0, 0, 0], 'WAVE'), 'audio/wav'],
+      [bytes('OggS', [0, 2]), 'audio/ogg'],
+      [bytes('fLaC', [0, 0, 0, 34]), 'audio/flac'],
+      [bytes([0, 0, 0, 32], 'ftypM4A '), 'audio/mp4'],
+      [bytes([0x1a, 0x45, 0xdf, 0xa3]), 'audio/webm'],
+    ];
+    for (const [header, expected] of cases) {
+      expect(await detectAudioMimeType(new Blob([header]))).toBe(expected);
+    }
+  });
+
+  it('trusts the bytes over a wrong browser-reported type', async () => {
+    expect(await detectAudioMimeType(new Blob([bytes('OggS')], { type: 'audio/webm' }))).toBe('audio/ogg');
+  });
+
+  it('falls back to the normalized browser type, then the extension', async () => {
+    const unknown = bytes('????????');
+    expect(await detectAudioMimeType(new Blob([unknown], { type: 'audio/mpeg' }))).toBe('audio/mp3');
+    expect(await detectAudioMimeType(new Blob([unknown]), 'Memo.M4A')).toBe('audio/mp4');
+    expect(await detectAudioMimeType(new Blob([unknown]), 'memo.bin')).toBe('audio/webm');
+  });
+});
+
+describe('normalizeMimeType', () => {
+  it('drops codec parameters and maps aliases', () => {
+    expect(normalizeMimeType('audio/webm;codecs=opus')).toBe('audio/webm');
+    expect(normalizeMimeType('Audio/X-WAV')).toBe('audio/wav');
+    expect(normalizeMimeType('audio/ogg')).toBe('audio/ogg');
+  });
+});
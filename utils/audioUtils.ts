@@ -0,0 +1,157 @@
+// --- Audio Format Detection ---
+
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  mp3: 'audio/mp3',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+};
+
+// Browsers report some formats under aliases the model API does not accept
+const MIME_ALIASES: Record<string, string> = {
+  'audio/mpeg': 'audio/mp3',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/x-flac': 'audio/flac',
+  'video/webm': 'audio/webm',
+  'video/mp4': 'audio/mp4',
+  'application/ogg': 'audio/ogg',
+};
+
+export const normalizeMimeType = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] || base;
+};
+
+const sniffMimeType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+  if (ascii(0, 3) === 'ID3') return 'audio/mp3';
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    // MPEG audio frame sync; layer bits 00 with ADTS header means AAC
+    return (bytes[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mp3';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') return 'audio/wav';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(4, 4) === 'ftyp') return 'audio/mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio/webm';
+  return null;
+};
+
+/**
+ * Determines the real MIME type of an audio blob.
+ * Magic bytes win over the browser-reported type, which wins over the file extension.
+ */
+export const detectAudioMimeType = async (blob: Blob, filename?: string): Promise<string> => {
+  try {
+    const header = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+    const sniffed = sniffMimeType(header);
+    if (sniffed) return sniffed;
+  } catch (e) {
+    console.warn("Could not read audio header", e);
+  }
+
+  if (blob.type) return normalizeMimeType(blob.type);
+
+  const name = filename || (blob as File).name || '';
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return AUDIO_EXTENSIONS[extension] || 'audio/webm';
+};
+
+// --- Chunking for Long Recordings ---
+
+// Inline request payloads are limited to ~20MB after base64 encoding (+33%)
+export const MAX_INLINE_AUDIO_BYTES = 14 * 1024 * 1024;
+// 16kHz mono 16-bit PCM: 5 minutes ≈ 9.6MB per segment
+export const SEGMENT_SECONDS = 300;
+const SEGMENT_SAMPLE_RATE = 16000;
+
+export interface AudioSegment {
+  blob: Blob;
+  mimeType: string;
+  startTime: number; // seconds from the beginning of the original recording
+  endTime: number;
+}
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);        // PCM chunk size
+  view.setUint16(20, 1, true);         // PCM format
+  view.setUint16(22, 1, true);         // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Averages the channels of one window into a mono copy of just that window
+const downmixWindow = (audioBuffer: AudioBuffer, start: number, end: number): Float32Array => {
+  if (audioBuffer.numberOfChannels === 1) return audioBuffer.getChannelData(0).subarray(start, end);
+  const mixed = new Float32Array(end - start);
+  for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+    const data = audioBuffer.getChannelData(c);
+    for (let i = start; i < end; i++) mixed[i - start] += data[i] / audioBuffer.numberOfChannels;
+  }
+  return mixed;
+};
+
+/**
+ * Prepares audio for the model. Small files are passed through with their real MIME type;
+ * anything above MAX_INLINE_AUDIO_BYTES is decoded, downsampled to 16kHz mono and split
+ * into WAV segments of SEGMENT_SECONDS each.
+ */
+export const splitAudioForUpload = async (blob: Blob, filename?: string): Promise<AudioSegment[]> => {
+  const mimeType = await detectAudioMimeType(blob, filename);
+  const typedBlob = blob.type === mimeType ? blob : new Blob([blob], { type: mimeType });
+
+  if (blob.size <= MAX_INLINE_AUDIO_BYTES) {
+    return [{ blob: typedBlob, mimeType, startTime: 0, endTime: 0 }];
+  }
+
+  // decodeAudioData needs the whole file and returns the whole recording as 32-bit PCM:
+  // resampling to 16kHz keeps that to ~230MB per channel per hour. Downmixing and WAV
+  // encoding then work one segment at a time so no second full-length copy is made.
+  const context = new OfflineAudioContext(1, 1, SEGMENT_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(await blob.arrayBuffer());
+  const samplesPerSegment = SEGMENT_SECONDS * audioBuffer.sampleRate;
+
+  const segments: AudioSegment[] = [];
+  for (let start = 0; start < audioBuffer.length; start += samplesPerSegment) {
+    const end = Math.min(start + samplesPerSegment, audioBuffer.length);
+    segments.push({
+      blob: encodeWav(downmixWindow(audioBuffer, start, end), audioBuffer.sampleRate),
+      mimeType: 'audio/wav',
+      startTime: start / audioBuffer.sampleRate,
+      endTime: end / audioBuffer.sampleRate,
+    });
+  }
+  return segments;
+};
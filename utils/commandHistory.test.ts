@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Command, createCommandHistory } from './commandHistory';
+
+const add = (amount: number): Command<number> => ({
+  label: `Add ${amount}`,
+  apply: state => state + amount,
+  revert: state => state - amount,
+});
+
+describe('createCommandHistory', () => {
+  it('undoes and redoes commands in order', () => {
+    const history = createCommandHistory<number>();
+    let state = history.execute(add(1), 0);
+    state = history.execute(add(10), state);
+    expect(state).toBe(11);
+
+    const undone = history.undo(state)!;
+    expect(undone).toMatchObject({ state: 1, command: { label: 'Add 10' } });
+    expect(history.undo(undone.state)!.state).toBe(0);
+    expect(history.undo(0)).toBeNull();
+    expect(history.canUndo()).toBe(false);
+
+    expect(history.redo(0)!.state).toBe(1);
+    expect(history.redo(1)!.state).toBe(11);
+    expect(history.redo(11)).toBeNull();
+  });
+
+  it('clears the redo stack when a new command runs', () => {
+    const history = createCommandHistory<number>();
+    let state = history.execute(add(1), 0);
+    state = history.undo(state)!.state;
+    expect(history.canRedo()).toBe(true);
+
+    state = history.execute(add(5), state);
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo(state)).toBeNull();
+    expect(history.undo(state)!.state).toBe(0);
+  });
+
+  it('drops the oldest commands beyond the limit', () => {
+    const history = createCommandHistory<number>(3);
+    let state = 0;
+    [1, 2, 3, 4].forEach(amount => { state = history.execute(add(amount), state); });
+
+    const labels: string[] = [];
+    let step = history.undo(state);
+    while (step) {
+      labels.push(step.command.label);
+      state = step.state;
+      step = history.undo(state);
+    }
+    expect(labels).toEqual(['Add 4', 'Add 3', 'Add 2']);
+    expect(state).toBe(1);
+  });
+
+  it('forgets everything on clear', () => {
+    const history = createCommandHistory<number>();
+    const state = history.execute(add(1), 0);
+    history.undo(state);
+    history.execute(add(2), 0);
+    history.clear();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+});
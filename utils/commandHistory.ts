@@ -0,0 +1,53 @@
+// --- Undo / Redo ---
+// Every edit is a command that knows how to apply and revert itself on an immutable state.
+
+export interface Command<S> {
+  label: string;
+  apply: (state: S) => S;
+  revert: (state: S) => S;
+}
+
+export interface CommandHistory<S> {
+  execute: (command: Command<S>, state: S) => S;
+  undo: (state: S) => { state: S; command: Command<S> } | null;
+  redo: (state: S) => { state: S; command: Command<S> } | null;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clear: () => void;
+}
+
+const MAX_HISTORY = 100;
+
+export const createCommandHistory = <S>(limit: number = MAX_HISTORY): CommandHistory<S> => {
+  let undoStack: Command<S>[] = [];
+  let redoStack: Command<S>[] = [];
+
+  return {
+    execute: (command, state) => {
+      const next = command.apply(state);
+      undoStack = [...undoStack, command].slice(-limit);
+      redoStack = [];
+      return next;
+    },
+    undo: (state) => {
+      const command = undoStack[undoStack.length - 1];
+      if (!command) return null;
+      undoStack = undoStack.slice(0, -1);
+      redoStack = [...redoStack, command];
+      return { state: command.revert(state), command };
+    },
+    redo: (state) => {
+      const command = redoStack[redoStack.length - 1];
+      if (!command) return null;
+      redoStack = redoStack.slice(0, -1);
+      undoStack = [...undoStack, command];
+      return { state: command.apply(state), command };
+    },
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+    clear: () => {
+      undoStack = [];
+      redoStack = [];
+    },
+  };
+};
@@ -1,10 +1,14 @@
-import { MindMapData, MindMapNode, HistoryItem } from '../types';
-import { toPng } from 'html-to-image';
-
-const HISTORY_KEY = 'voicemap_history';
+import { HistoryItem, MindMapData, MindMapNode } from '../types';
+import { normalizeMindMap } from './mapValidation';
+import { createZip } from './zipUtils';
 
 // --- Export Logic ---
 
+// Titles of the Markdown sections for cross-links and the transcript; parseMarkdownOutline
+// reads them back as such instead of as branches
+export const RELATIONSHIPS_HEADING = 'Relationships';
+export const TRANSCRIPT_HEADING = 'Transcript';
+
 export const generateMarkdown = (data: MindMapData): string => {
   let md = `# ${data.root.label}\n\n`;
   if (data.root.details) md += `> ${data.root.details}\n\n`;
@@ -24,6 +28,33 @@ export const generateMarkdown = (data: MindMapData): string => {
   if (data.root.children) {
     data.root.children.forEach(child => processNode(child, 0));
   }
+
+  // Cross-links have no list equivalent, so they are listed in their own section
+  if (data.crossLinks && data.crossLinks.length > 0) {
+    const labels = new Map<string, string>();
+    const collect = (node: MindMapNode) => {
+      labels.set(node.id, node.label);
+      node.children?.forEach(collect);
+    };
+    collect(data.root);
+    md += `\n## ${RELATIONSHIPS_HEADING}\n\n`;
+    data.crossLinks.forEach(link => {
+      md += `- ${labels.get(link.source)} → ${labels.get(link.target)}${link.label ? ` _(${link.label})_` : ''}\n`;
+    });
+  }
+
+  // One paragraph per speaker turn
+  if (data.transcript && data.transcript.length > 0) {
+    const turns: string[] = [];
+    data.transcript.forEach((sentence, index) => {
+      if (index > 0 && sentence.speaker === data.transcript![index - 1].speaker) {
+        turns[turns.length - 1] += ` ${sentence.text}`;
+      } else {
+        turns.push(`${sentence.speaker ? `**${sentence.speaker}:** ` : ''}${sentence.text}`);
+      }
+    });
+    md += `\n## ${TRANSCRIPT_HEADING}\n\n${turns.join('\n\n')}\n`;
+  }
   return md;
 };
 
@@ -47,8 +78,20 @@ export const generateMermaid = (data: MindMapData): string => {
   return mermaid;
 };
 
-export const downloadFile = (content: string, filename: string, type: string) => {
-  const blob = new Blob([content], { type });
+// Several saved maps as one .zip of JSON files, each importable on its own
+export const generateMapBundle = (items: HistoryItem[]): Blob => {
+  const used = new Set<string>();
+  return createZip(items.map(item => {
+    const base = (item.previewLabel || 'map').replace(/[\\/:*?"<>|]+/g, '_').trim().slice(0, 60) || 'map';
+    let name = `${base}.json`;
+    for (let n = 2; used.has(name); n++) name = `${base} (${n}).json`;
+    used.add(name);
+    return { name, content: JSON.stringify(item.data, null, 2) };
+  }));
+};
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -61,6 +104,7 @@ export const downloadFile = (content: string, filename: string, type: string) =>
 
 export const downloadImage = async (element: HTMLElement, filename: string) => {
   try {
+    const { toPng } = await import('html-to-image');
     const dataUrl = await toPng(element, { backgroundColor: '#f8fafc' });
     const a = document.createElement('a');
     a.href = dataUrl;
@@ -74,65 +118,6 @@ export const downloadImage = async (element: HTMLElement, filename: string) => {
   }
 };
 
-// --- Storage Logic (My Maps) ---
-
-export const saveMap = (data: MindMapData) => {
-  try {
-    const historyJSON = localStorage.getItem(HISTORY_KEY);
-    const history: HistoryItem[] = historyJSON ? JSON.parse(historyJSON) : [];
-    
-    // Check if this map (by root ID) already exists
-    const existingIndex = history.findIndex(item => item.data.root.id === data.root.id);
-
-    if (existingIndex >= 0) {
-      // Update existing
-      history[existingIndex] = {
-        ...history[existingIndex],
-        timestamp: Date.now(),
-        data: data,
-        previewLabel: data.root.label || 'Untitled Map'
-      };
-    } else {
-      // Create new
-      const newItem: HistoryItem = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        data,
-        previewLabel: data.root.label || 'Untitled Map'
-      };
-      // Add to front
-      history.unshift(newItem);
-    }
-
-    // Keep last 50 items
-    const newHistory = history.slice(0, 50);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
-  } catch (e) {
-    console.error("Failed to save map", e);
-  }
-};
-
-export const deleteMap = (id: string) => {
-  try {
-    const historyJSON = localStorage.getItem(HISTORY_KEY);
-    if (!historyJSON) return;
-    const history: HistoryItem[] = JSON.parse(historyJSON);
-    const newHistory = history.filter(item => item.id !== id);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(newHistory));
-  } catch (e) {
-    console.error("Failed to delete map", e);
-  }
-};
-
-export const getSavedMaps = (): HistoryItem[] => {
-  try {
-    const historyJSON = localStorage.getItem(HISTORY_KEY);
-    return historyJSON ? JSON.parse(historyJSON) : [];
-  } catch (e) {
-    return [];
-  }
-};
-
 // --- Share / URL Logic ---
 
 // Simple encoding for URL sharing (Base64 with UTF-8 support)
@@ -153,7 +138,7 @@ export const decodeStateFromUrl = (hash: string): MindMapData | null => {
       return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
     }).join(''));
 
-    return JSON.parse(json);
+    return normalizeMindMap(JSON.parse(json), 'shared link');
   } catch (e) {
     console.error("Failed to decode URL state", e);
     return null;
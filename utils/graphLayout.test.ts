@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Node } from 'reactflow';
+import { getLayoutedElements, LayoutType, NodeSizes } from './graphLayout';
+import { MindMapData, MindMapNode } from '../types';
+
+const DEFAULT_SIZE = { width: 220, height: 80 };
+
+// Root with branches of different fan-out, one of them two levels deep
+const branch = (id: string, leaves: number, deep = false): MindMapNode => ({
+  id,
+  label: id,
+  children: Array.from({ length: leaves }, (_, i) => ({
+    id: `${id}.${i}`,
+    label: `${id}.${i}`,
+    ...(deep && i === 0 ? { children: [{ id: `${id}.${i}.0`, label: 'Leaf' }, { id: `${id}.${i}.1`, label: 'Leaf' }] } : {}),
+  })),
+});
+
+const data: MindMapData = {
+  root: { id: 'root', label: 'Root', children: [branch('a', 5, true), branch('b', 1), branch('c', 3), branch('d', 2), branch('e', 0)] },
+};
+
+type Box = { id: string; x: number; y: number; width: number; height: number };
+
+const boxes = (nodes: Node[], sizes: NodeSizes = new Map()): Box[] =>
+  nodes.map(n => ({ id: n.id, ...n.position, ...(sizes.get(n.id) || DEFAULT_SIZE) }));
+
+const overlapping = (all: Box[]): [string, string][] => {
+  const pairs: [string, string][] = [];
+  all.forEach((a, i) => all.slice(i + 1).forEach(b => {
+    if (a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height) pairs.push([a.id, b.id]);
+  }));
+  return pairs;
+};
+
+const centreOf = (nodes: Node[], id: string) => {
+  const node = nodes.find(n => n.id === id)!;
+  return { x: node.position.x + DEFAULT_SIZE.width / 2, y: node.position.y + DEFAULT_SIZE.height / 2 };
+};
+
+describe('getLayoutedElements', () => {
+  it.each<LayoutType>(['LR', 'TB', 'Radial', 'MindMap', 'OrgChart'])('places every node without overlaps in the %s layout', layout => {
+    const { nodes, edges } = getLayoutedElements(data, layout);
+    expect(nodes).toHaveLength(19);
+    expect(edges).toHaveLength(18);
+    expect(overlapping(boxes(nodes))).toEqual([]);
+  });
+
+  it('puts every first-level branch of the radial layout on one ring around the root', () => {
+    const { nodes } = getLayoutedElements(data, 'Radial');
+    expect(centreOf(nodes, 'root')).toEqual({ x: 0, y: 0 });
+    const radii = ['a', 'b', 'c', 'd', 'e'].map(id => Math.hypot(centreOf(nodes, id).x, centreOf(nodes, id).y));
+    radii.forEach(radius => expect(radius).toBeCloseTo(radii[0]));
+    const grandchild = centreOf(nodes, 'a.0');
+    expect(Math.hypot(grandchild.x, grandchild.y)).toBeGreaterThan(radii[0]);
+  });
+
+  it('splits the two-sided mind map by leaf count and keeps subtrees on their branch side', () => {
+    const { nodes, edges } = getLayoutedElements(data, 'MindMap');
+    const side = (id: string) => Math.sign(centreOf(nodes, id).x);
+    // a has 6 of the 13 leaves, so b joins it on the right before the half is reached
+    expect(['a', 'b'].map(side)).toEqual([1, 1]);
+    expect(['c', 'd', 'e'].map(side)).toEqual([-1, -1, -1]);
+    expect(['a.0', 'a.0.1', 'b.0'].map(side)).toEqual([1, 1, 1]);
+    expect(['c.2', 'd.1'].map(side)).toEqual([-1, -1]);
+    expect(edges.filter(e => e.sourceHandle === 'left').map(e => e.target)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('stacks leaf-only children in a column below their parent in the org chart', () => {
+    const { nodes } = getLayoutedElements(data, 'OrgChart');
+    const column = ['c.0', 'c.1', 'c.2'].map(id => centreOf(nodes, id));
+    expect(new Set(column.map(c => c.x)).size).toBe(1);
+    expect(column[0].y).toBeGreaterThan(centreOf(nodes, 'c').y);
+    expect(column[1].y).toBeGreaterThan(column[0].y);
+  });
+
+  it('leaves collapsed branches out of the layout', () => {
+    const folded: MindMapData = { root: { ...data.root, children: [{ ...branch('a', 5, true), collapsed: true }] } };
+    const { nodes } = getLayoutedElements(folded, 'Radial');
+    expect(nodes.map(n => n.id)).toEqual(['root', 'a']);
+  });
+
+  it('spaces nodes by their measured size', () => {
+    const sizes: NodeSizes = new Map([['a', { width: 600, height: 300 }], ['c.1', { width: 400, height: 200 }]]);
+    (['Radial', 'MindMap', 'OrgChart'] as LayoutType[]).forEach(layout => {
+      const { nodes } = getLayoutedElements(data, layout, sizes);
+      expect(overlapping(boxes(nodes, sizes))).toEqual([]);
+    });
+  });
+});
@@ -1,10 +1,15 @@
 import dagre from 'dagre';
-import { Node, Edge, Position } from 'reactflow';
-import { MindMapNode, MindMapData } from '../types';
+import { Node, Edge, Position, MarkerType } from 'reactflow';
+import { MindMapNode, MindMapData, CrossLinkStyle } from '../types';
 
 const nodeWidth = 220;
 const nodeHeight = 80;
 
+// Used until React Flow has measured a node (first render, exports of unseen nodes)
+export const DEFAULT_NODE_SIZE = { width: nodeWidth, height: nodeHeight };
+
+export type NodeSizes = Map<string, { width: number; height: number }>;
+
 const CATEGORY_COLORS: Record<string, string> = {
   idea: '#e0e7ff',   // Indigo 100
   task: '#dcfce7',   // Green 100
@@ -32,7 +37,11 @@ const flattenTree = (
       category: node.category,
       links: node.links,
       style: { ...node.style, backgroundColor: bgColor },
-      createdAt: node.createdAt
+      createdAt: node.createdAt,
+      collapsed: node.collapsed,
+      childCount: node.children?.length || 0,
+      audio: node.audio,
+      sentenceIds: node.sentenceIds
     },
   };
 
@@ -49,7 +58,8 @@ const flattenTree = (
     });
   }
 
-  if (node.children) {
+  // Collapsed branches keep their children in the tree but are not rendered
+  if (node.children && !node.collapsed) {
     node.children.forEach((child) => {
       flattenTree(child, nodes, edges, node.id);
     });
@@ -58,73 +68,274 @@ const flattenTree = (
   return { nodes, edges };
 };
 
+// --- Cross-Links ---
+
+export const CROSS_LINK_COLOR = '#a855f7'; // Purple 500
+
+const CROSS_LINK_DASHES: Record<CrossLinkStyle, string | undefined> = {
+  dashed: '6 4',
+  dotted: '2 4',
+  solid: undefined,
+};
+
+// Relationship edges are added after layout so they never influence node placement.
+// Links to nodes hidden inside collapsed branches are not drawn.
+const buildCrossLinkEdges = (data: MindMapData, visibleIds: Set<string>): Edge[] =>
+  (data.crossLinks || [])
+    .filter(link => visibleIds.has(link.source) && visibleIds.has(link.target))
+    .map(link => {
+      const color = link.color || CROSS_LINK_COLOR;
+      return {
+        id: `x-${link.id}`,
+        source: link.source,
+        target: link.target,
+        type: 'default',
+        label: link.label,
+        data: { crossLinkId: link.id },
+        style: { stroke: color, strokeWidth: 2, strokeDasharray: CROSS_LINK_DASHES[link.style || 'dashed'] },
+        labelStyle: { fill: color, fontSize: 11, fontWeight: 600 },
+        labelBgStyle: { fill: '#ffffff', fillOpacity: 0.9 },
+        markerEnd: { type: MarkerType.ArrowClosed, color },
+      };
+    });
+
+// --- Tree Layouts ---
+// The radial, mind-map and org-chart layouts walk the visible tree once or twice (O(n)) and
+// return centre points; dagre handles the plain horizontal and vertical layouts.
+
+export type LayoutType = 'LR' | 'TB' | 'Radial' | 'MindMap' | 'OrgChart';
+
+interface Placement {
+  x: number;
+  y: number;
+  sourcePosition?: Position;
+  targetPosition?: Position;
+}
+
+type Placements = Map<string, Placement>;
+type SizeOf = (id: string) => { width: number; height: number };
+
+const visibleChildren = (node: MindMapNode): MindMapNode[] =>
+  node.collapsed ? [] : node.children || [];
+
+const countLeaves = (node: MindMapNode, leaves: Map<string, number>): number => {
+  const children = visibleChildren(node);
+  const count = children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child, leaves), 0);
+  leaves.set(node.id, count);
+  return count;
+};
+
 // --- Radial Layout Algorithm ---
-const applyRadialLayout = (nodes: Node[], edges: Edge[], rootId: string) => {
-    const root = nodes.find(n => n.id === rootId);
-    if (!root) return nodes;
-
-    const adjacency: Record<string, string[]> = {};
-    edges.forEach(e => {
-        if (!adjacency[e.source]) adjacency[e.source] = [];
-        adjacency[e.source].push(e.target);
+// Each subtree gets an angular wedge proportional to its leaf count. Ring radii are then grown
+// until every node's wedge is wide enough for the node at that angle, and consecutive rings are
+// far enough apart that they cannot touch.
+
+const RADIAL_NODE_GAP = 24;
+const RADIAL_RING_GAP = 60;
+
+const applyRadialLayout = (root: MindMapNode, sizeOf: SizeOf): Placements => {
+  const leaves = new Map<string, number>();
+  countLeaves(root, leaves);
+
+  const wedges: { node: MindMapNode; depth: number; angle: number }[] = [];
+  const ringMinimum: number[] = [0];
+  const ringDepth: number[] = [Math.max(sizeOf(root.id).width, sizeOf(root.id).height)];
+
+  const assign = (node: MindMapNode, depth: number, start: number, end: number) => {
+    const span = end - start;
+    const angle = (start + end) / 2;
+    if (depth > 0) {
+      const { width, height } = sizeOf(node.id);
+      const sin = Math.abs(Math.sin(angle));
+      const cos = Math.abs(Math.cos(angle));
+      // Extent of the box along the ring (tangent) and across it (radial direction)
+      const tangent = width * sin + height * cos + RADIAL_NODE_GAP;
+      const radial = width * cos + height * sin;
+      const needed = span < Math.PI ? tangent / (2 * Math.sin(span / 2)) : 0;
+      ringMinimum[depth] = Math.max(ringMinimum[depth] || 0, needed);
+      ringDepth[depth] = Math.max(ringDepth[depth] || 0, radial);
+      wedges.push({ node, depth, angle });
+    }
+
+    const total = leaves.get(node.id) || 1;
+    let cursor = start;
+    visibleChildren(node).forEach(child => {
+      const share = span * (leaves.get(child.id) || 1) / total;
+      assign(child, depth + 1, cursor, cursor + share);
+      cursor += share;
     });
+  };
+
+  // Start at 12 o'clock and go clockwise
+  assign(root, 0, -Math.PI / 2, Math.PI * 1.5);
+
+  const radii = [0];
+  for (let depth = 1; depth < ringDepth.length; depth++) {
+    const clearance = radii[depth - 1] + ringDepth[depth - 1] / 2 + ringDepth[depth] / 2 + RADIAL_RING_GAP;
+    radii[depth] = Math.max(ringMinimum[depth] || 0, clearance);
+  }
+
+  const placements: Placements = new Map([[root.id, { x: 0, y: 0 }]]);
+  wedges.forEach(({ node, depth, angle }) => {
+    placements.set(node.id, { x: radii[depth] * Math.cos(angle), y: radii[depth] * Math.sin(angle) });
+  });
+  return placements;
+};
+
+// --- Mind Map Layout (two-sided) ---
+// Root in the middle; the first branches (by leaf count, up to half the map) grow to the right,
+// the rest to the left. Each side is a horizontal tree with subtrees stacked by block height.
+
+const MINDMAP_COLUMN_GAP = 80;
+const MINDMAP_ROW_GAP = 16;
+
+const applyMindMapLayout = (root: MindMapNode, sizeOf: SizeOf): Placements => {
+  const leaves = new Map<string, number>();
+  const total = countLeaves(root, leaves);
+  const placements: Placements = new Map([[root.id, { x: 0, y: 0 }]]);
 
-    const setPosition = (nodeId: string, depth: number, startAngle: number, endAngle: number) => {
-        const node = nodes.find(n => n.id === nodeId);
-        if (!node) return;
-
-        const radius = depth * 350; // Radius increment
-        // Center the angle
-        const angle = (startAngle + endAngle) / 2;
-        
-        // Root at 0,0
-        if (depth === 0) {
-            node.position = { x: 0, y: 0 };
-        } else {
-            node.position = {
-                x: radius * Math.cos(angle) - nodeWidth / 2,
-                y: radius * Math.sin(angle) - nodeHeight / 2
-            };
-        }
-
-        const children = adjacency[nodeId] || [];
-        if (children.length > 0) {
-            const angleStep = (endAngle - startAngle) / children.length;
-            children.forEach((childId, index) => {
-                setPosition(
-                    childId, 
-                    depth + 1, 
-                    startAngle + index * angleStep, 
-                    startAngle + (index + 1) * angleStep
-                );
-            });
-        }
+  const branches = visibleChildren(root);
+  const right: MindMapNode[] = [];
+  const left: MindMapNode[] = [];
+  let weight = 0;
+  branches.forEach(branch => {
+    if (weight < total / 2 || right.length === 0) right.push(branch);
+    else left.push(branch);
+    weight += leaves.get(branch.id) || 1;
+  });
+
+  const layoutSide = (side: MindMapNode[], direction: 1 | -1) => {
+    // Column widths per depth, so wide nodes push the next column out instead of overlapping it
+    const columns: number[] = [];
+    const blocks = new Map<string, number>();
+    const measure = (node: MindMapNode, depth: number): number => {
+      const { width, height } = sizeOf(node.id);
+      columns[depth] = Math.max(columns[depth] || 0, width);
+      const children = visibleChildren(node);
+      const childrenHeight = children.reduce((sum, child) => sum + measure(child, depth + 1), 0)
+        + Math.max(0, children.length - 1) * MINDMAP_ROW_GAP;
+      const block = Math.max(height, childrenHeight);
+      blocks.set(node.id, block);
+      return block;
+    };
+    const sideHeight = side.reduce((sum, branch) => sum + measure(branch, 0), 0)
+      + Math.max(0, side.length - 1) * MINDMAP_ROW_GAP;
+
+    const columnX: number[] = [];
+    let edge = sizeOf(root.id).width / 2 + MINDMAP_COLUMN_GAP;
+    columns.forEach((width, depth) => {
+      columnX[depth] = direction * (edge + width / 2);
+      edge += width + MINDMAP_COLUMN_GAP;
+    });
+
+    const place = (node: MindMapNode, depth: number, top: number) => {
+      const block = blocks.get(node.id) || 0;
+      placements.set(node.id, {
+        x: columnX[depth],
+        y: top + block / 2,
+        targetPosition: direction === 1 ? Position.Left : Position.Right,
+        sourcePosition: direction === 1 ? Position.Right : Position.Left,
+      });
+      const children = visibleChildren(node);
+      const childrenHeight = children.reduce((sum, child) => sum + (blocks.get(child.id) || 0), 0)
+        + Math.max(0, children.length - 1) * MINDMAP_ROW_GAP;
+      let cursor = top + (block - childrenHeight) / 2;
+      children.forEach(child => {
+        place(child, depth + 1, cursor);
+        cursor += (blocks.get(child.id) || 0) + MINDMAP_ROW_GAP;
+      });
     };
 
-    setPosition(rootId, 0, 0, 2 * Math.PI);
-    return nodes;
+    let cursor = -sideHeight / 2;
+    side.forEach(branch => {
+      place(branch, 0, cursor);
+      cursor += (blocks.get(branch.id) || 0) + MINDMAP_ROW_GAP;
+    });
+  };
+
+  layoutSide(right, 1);
+  layoutSide(left, -1);
+  return placements;
 };
 
+// --- Org Chart Layout (compact) ---
+// Top-down tree where a node whose children are all leaves lists them in an indented column
+// below it instead of spreading them sideways, which keeps wide maps narrow.
 
-export const getLayoutedElements = (
-  data: MindMapData,
-  layoutType: 'LR' | 'TB' | 'Radial' = 'LR'
-): { nodes: Node[]; edges: Edge[] } => {
-  const { nodes, edges } = flattenTree(data.root);
-  const rootId = data.root.id;
+const ORG_COLUMN_GAP = 32;
+const ORG_ROW_GAP = 60;
+const ORG_STACK_GAP = 16;
+const ORG_INDENT = 40;
 
-  if (layoutType === 'Radial') {
-      const radialNodes = applyRadialLayout(nodes, edges, rootId);
-      return { nodes: radialNodes, edges };
-  }
+const applyOrgChartLayout = (root: MindMapNode, sizeOf: SizeOf): Placements => {
+  const placements: Placements = new Map();
+  const widths = new Map<string, number>();
+
+  const isStacked = (node: MindMapNode) => {
+    const children = visibleChildren(node);
+    return children.length > 0 && children.every(child => visibleChildren(child).length === 0);
+  };
+
+  const measure = (node: MindMapNode): number => {
+    const { width } = sizeOf(node.id);
+    const children = visibleChildren(node);
+    let block = width;
+    if (isStacked(node)) {
+      block = Math.max(width, ORG_INDENT + Math.max(...children.map(child => measure(child))));
+    } else if (children.length > 0) {
+      const row = children.reduce((sum, child) => sum + measure(child), 0) + (children.length - 1) * ORG_COLUMN_GAP;
+      block = Math.max(width, row);
+    }
+    widths.set(node.id, block);
+    return block;
+  };
+  measure(root);
+
+  const place = (node: MindMapNode, left: number, top: number, targetPosition: Position) => {
+    const { width, height } = sizeOf(node.id);
+    const block = widths.get(node.id) || width;
+    const children = visibleChildren(node);
 
-  // Dagre Layout (Hierarchical)
+    if (isStacked(node)) {
+      placements.set(node.id, { x: left + width / 2, y: top + height / 2, sourcePosition: Position.Bottom, targetPosition });
+      let cursor = top + height + ORG_STACK_GAP;
+      children.forEach(child => {
+        const size = sizeOf(child.id);
+        placements.set(child.id, {
+          x: left + ORG_INDENT + size.width / 2,
+          y: cursor + size.height / 2,
+          sourcePosition: Position.Bottom,
+          targetPosition: Position.Left,
+        });
+        cursor += size.height + ORG_STACK_GAP;
+      });
+      return;
+    }
+
+    placements.set(node.id, { x: left + block / 2, y: top + height / 2, sourcePosition: Position.Bottom, targetPosition });
+    const row = children.reduce((sum, child) => sum + (widths.get(child.id) || 0), 0)
+      + Math.max(0, children.length - 1) * ORG_COLUMN_GAP;
+    let cursor = left + (block - row) / 2;
+    children.forEach(child => {
+      place(child, cursor, top + height + ORG_ROW_GAP, Position.Top);
+      cursor += (widths.get(child.id) || 0) + ORG_COLUMN_GAP;
+    });
+  };
+
+  place(root, 0, 0, Position.Top);
+  return placements;
+};
+
+// --- Dagre Layout (Hierarchical) ---
+
+const applyDagreLayout = (nodes: Node[], edges: Edge[], rankdir: 'LR' | 'TB', sizeOf: SizeOf): Placements => {
   const dagreGraph = new dagre.graphlib.Graph();
   dagreGraph.setDefaultEdgeLabel(() => ({}));
-  dagreGraph.setGraph({ rankdir: layoutType });
+  dagreGraph.setGraph({ rankdir });
 
   nodes.forEach((node) => {
-    dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight });
+    // dagre writes the computed position into the label object, so each node needs its own
+    dagreGraph.setNode(node.id, { ...sizeOf(node.id) });
   });
 
   edges.forEach((edge) => {
@@ -133,61 +344,59 @@ export const getLayoutedElements = (
 
   dagre.layout(dagreGraph);
 
-  const isHorizontal = layoutType === 'LR';
+  const isHorizontal = rankdir === 'LR';
+  return new Map(nodes.map(node => {
+    const { x, y } = dagreGraph.node(node.id);
+    return [node.id, {
+      x,
+      y,
+      targetPosition: isHorizontal ? Position.Left : Position.Top,
+      sourcePosition: isHorizontal ? Position.Right : Position.Bottom,
+    }];
+  }));
+};
+
+/**
+ * Lays out the visible tree. `sizes` holds the rendered dimensions reported by React Flow;
+ * nodes that have not been measured yet fall back to DEFAULT_NODE_SIZE, and the caller re-runs
+ * the layout once their real size is known.
+ */
+export const getLayoutedElements = (
+  data: MindMapData,
+  layoutType: LayoutType = 'LR',
+  sizes: NodeSizes = new Map()
+): { nodes: Node[]; edges: Edge[] } => {
+  const { nodes, edges } = flattenTree(data.root);
+  const crossEdges = buildCrossLinkEdges(data, new Set(nodes.map(n => n.id)));
+  const sizeOf: SizeOf = (id) => sizes.get(id) || DEFAULT_NODE_SIZE;
+
+  const placements =
+    layoutType === 'Radial' ? applyRadialLayout(data.root, sizeOf)
+    : layoutType === 'MindMap' ? applyMindMapLayout(data.root, sizeOf)
+    : layoutType === 'OrgChart' ? applyOrgChartLayout(data.root, sizeOf)
+    : applyDagreLayout(nodes, edges, layoutType, sizeOf);
 
   const layoutedNodes = nodes.map((node) => {
-    const nodeWithPosition = dagreGraph.node(node.id);
+    const placement = placements.get(node.id) || { x: 0, y: 0 };
+    const { width, height } = sizeOf(node.id);
     return {
       ...node,
-      targetPosition: isHorizontal ? Position.Left : Position.Top,
-      sourcePosition: isHorizontal ? Position.Right : Position.Bottom,
-      position: {
-        x: nodeWithPosition.x - nodeWidth / 2,
-        y: nodeWithPosition.y - nodeHeight / 2,
-      },
+      ...(placement.targetPosition ? { targetPosition: placement.targetPosition } : {}),
+      ...(placement.sourcePosition ? { sourcePosition: placement.sourcePosition } : {}),
+      position: { x: placement.x - width / 2, y: placement.y - height / 2 },
     };
   });
 
-  return { nodes: layoutedNodes, edges };
-};
-
-export const reconstructTreeFromFlow = (nodes: Node[], edges: Edge[], originalRootId: string): MindMapData | null => {
-  const nodeMap = new Map<string, MindMapNode>();
-  
-  // Create all MindMapNodes
-  nodes.forEach(n => {
-    nodeMap.set(n.id, {
-      id: n.id,
-      label: n.data.label,
-      details: n.data.details,
-      category: n.data.category,
-      links: n.data.links,
-      style: n.data.style,
-      createdAt: n.data.createdAt,
-      children: []
-    });
-  });
-
-  const root = nodeMap.get(originalRootId);
-  // Fallback if original root deleted: find node with no incoming edges
-  if (!root) {
-      const targets = new Set(edges.map(e => e.target));
-      const potentialRoot = nodes.find(n => !targets.has(n.id));
-      if (potentialRoot) {
-          return { root: nodeMap.get(potentialRoot.id)! };
+  // In the two-sided layout the root feeds branches on both sides through a second handle
+  if (layoutType === 'MindMap') {
+    const root = layoutedNodes.find(n => n.id === data.root.id);
+    if (root) root.data = { ...root.data, twoSided: true };
+    edges.forEach(edge => {
+      if (edge.source === data.root.id && placements.get(edge.target)?.targetPosition === Position.Right) {
+        edge.sourceHandle = 'left';
       }
-      return null;
+    });
   }
 
-  // Build hierarchy
-  edges.forEach(e => {
-    const parent = nodeMap.get(e.source);
-    const child = nodeMap.get(e.target);
-    if (parent && child) {
-       parent.children = parent.children || [];
-       parent.children.push(child);
-    }
-  });
-
-  return { root };
-};
\ No newline at end of file
+  return { nodes: layoutedNodes, edges: [...edges, ...crossEdges] };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { detectImportFormat, importMapText, parseMarkdownOutline, parseMermaidMindmap } from './importUtils';
+import { generateMarkdown, generateMermaid } from './fileUtils';
+import { MindMapData, MindMapNode } from '../types';
+
+// Label tree without IDs or timestamps, for comparing maps across a round trip
+const shape = (node: MindMapNode): any => ({
+  label: node.label,
+  ...(node.details ? { details: node.details } : {}),
+  ...(node.children && node.children.length > 0 ? { children: node.children.map(shape) } : {}),
+});
+
+const sample: MindMapData = {
+  root: {
+    id: 'r',
+    label: 'Product launch',
+    details: 'Kickoff notes',
+    children: [
+      { id: 'a', label: 'Budget', details: 'Needs finance sign-off', children: [{ id: 'a1', label: 'Q3 forecast' }] },
+      { id: 'b', label: 'Marketing', children: [{ id: 'b1', label: 'Call [Bob]' }, { id: 'b2', label: 'Press kit' }] },
+    ],
+  },
+};
+
+describe('parseMarkdownOutline', () => {
+  it('round-trips generateMarkdown output', () => {
+    expect(shape(parseMarkdownOutline(generateMarkdown(sample)).root)).toEqual(shape(sample.root));
+  });
+
+  it('reads the relationships section back as cross-links instead of a branch', () => {
+    const data: MindMapData = { ...sample, crossLinks: [{ id: 'l1', source: 'a1', target: 'b2', label: 'funds' }, { id: 'l2', source: 'b', target: 'a' }] };
+    const parsed = parseMarkdownOutline(generateMarkdown(data));
+    expect(shape(parsed.root)).toEqual(shape(sample.root));
+    const labelOf = (id: string) => [parsed.root, ...parsed.root.children!, ...parsed.root.children!.flatMap(c => c.children || [])].find(n => n.id === id)?.label;
+    expect(parsed.crossLinks!.map(l => [labelOf(l.source), labelOf(l.target), l.label])).toEqual([
+      ['Q3 forecast', 'Press kit', 'funds'],
+      ['Marketing', 'Budget', undefined],
+    ]);
+  });
+
+  it('reads the transcript section back as the transcript instead of a branch', () => {
+    const data: MindMapData = {
+      ...sample,
+      transcript: [
+        { id: 'x-s1', speaker: 'Ana', text: 'We need a budget.' },
+        { id: 'x-s2', speaker: 'Ana', text: 'By Friday?' },
+        { id: 'x-s3', speaker: 'Ben', text: '好的。明天给你。' },
+      ],
+    };
+    const parsed = parseMarkdownOutline(generateMarkdown(data));
+    expect(shape(parsed.root)).toEqual(shape(sample.root));
+    expect(parsed.transcript!.map(({ speaker, text }) => [speaker, text])).toEqual([
+      ['Ana', 'We need a budget.'],
+      ['Ana', 'By Friday?'],
+      ['Ben', '好的。'],
+      ['Ben', '明天给你。'],
+    ]);
+  });
+
+  it('nests space-indented lists under headings and turns checkboxes into tasks', () => {
+    const { root } = parseMarkdownOutline('# Trip\n## Packing\n- [ ] Passport\n  - Copy\n* **Tickets**\n## Route\n1. Lyon');
+    expect(shape(root)).toEqual({
+      label: 'Trip',
+      children: [
+        { label: 'Packing', children: [{ label: 'Passport', children: [{ label: 'Copy' }] }, { label: 'Tickets' }] },
+        { label: 'Route', children: [{ label: 'Lyon' }] },
+      ],
+    });
+    expect(root.children![0].children![0].category).toBe('task');
+  });
+
+  it('wraps several top-level items in a synthetic root', () => {
+    const { root } = parseMarkdownOutline('- One\n- Two');
+    expect(root.label).toBe('Imported Outline');
+    expect(root.children!.map(c => c.label)).toEqual(['One', 'Two']);
+  });
+
+  it('throws when there is no outline', () => {
+    expect(() => parseMarkdownOutline('\n\n')).toThrow('No outline found');
+  });
+});
+
+describe('parseMermaidMindmap', () => {
+  it('round-trips generateMermaid output', () => {
+    const { details, ...root } = sample.root;
+    const plain = { root: { ...root, children: root.children!.map(({ details, ...child }) => child) } };
+    expect(shape(parseMermaidMindmap(generateMermaid(plain)).root)).toEqual(shape(plain.root));
+  });
+
+  it('reads node shapes, quoted strings and class decorations', () => {
+    const { root } = parseMermaidMindmap('mindmap\n  root((Center))\n    a[Square]\n    b("Quoted")\n      ::icon(fa fa-book)\n    {{Hexagon}}:::urgent');
+    expect(shape(root)).toEqual({ label: 'Center', children: [{ label: 'Square' }, { label: 'Quoted' }, { label: 'Hexagon' }] });
+  });
+
+  it('keeps bracketed parts of plain labels', () => {
+    const { root } = parseMermaidMindmap('mindmap\n  Plan\n    Call [Bob]\n    Budget (Q3)');
+    expect(root.children!.map(c => c.label)).toEqual(['Call [Bob]', 'Budget (Q3)']);
+  });
+
+  it('requires the mindmap header', () => {
+    expect(() => parseMermaidMindmap('graph TD\n  A --> B')).toThrow("missing 'mindmap' header");
+  });
+});
+
+describe('importMapText', () => {
+  it('detects formats from the extension first and the content second', () => {
+    expect(detectImportFormat('notes.txt', 'mindmap\n  A')).toBe('mermaid');
+    expect(detectImportFormat('map.md', '{"root": {}}')).toBe('markdown');
+    expect(detectImportFormat('export', '<?xml version="1.0"?>\n<opml version="2.0">')).toBe('opml');
+    expect(detectImportFormat('export', '<map version="1.0.1">')).toBe('freemind');
+  });
+
+  it('round-trips a JSON export, cross-links included', async () => {
+    const data: MindMapData = { ...sample, crossLinks: [{ id: 'l1', source: 'a1', target: 'b2', label: 'funds' }] };
+    expect((await importMapText('map.json', JSON.stringify(data))).data).toEqual(data);
+  });
+
+  it('rejects invalid JSON', async () => {
+    await expect(importMapText('map.json', '{"root":')).rejects.toThrow('Invalid JSON file');
+  });
+});
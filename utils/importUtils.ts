@@ -0,0 +1,294 @@
+import { CrossLink, MindMapData, MindMapNode, TranscriptSentence } from '../types';
+import { validateMindMap, ValidationResult } from './mapValidation';
+import { RELATIONSHIPS_HEADING, TRANSCRIPT_HEADING } from './fileUtils';
+
+// --- Import Logic ---
+
+export const IMPORT_EXTENSIONS = ['.json', '.md', '.markdown', '.mmd', '.mermaid', '.opml', '.mm', '.xmind'];
+
+const createNode = (label: string, details?: string): MindMapNode => ({
+  id: crypto.randomUUID(),
+  label,
+  ...(details ? { details } : {}),
+  createdAt: Date.now(),
+  children: [],
+});
+
+// Wraps multiple top-level entries under a synthetic root when the source has no single root
+const toMap = (roots: MindMapNode[], fallbackLabel: string): MindMapData => {
+  if (roots.length === 1) return { root: roots[0] };
+  const root = createNode(fallbackLabel);
+  root.children = roots;
+  return { root };
+};
+
+// --- JSON ---
+
+// Parses a JSON export; throws on invalid JSON or when no root can be recovered
+export const importMindMapJSON = (content: string): ValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new Error("Invalid JSON file");
+  }
+  return validateMindMap(parsed);
+};
+
+// --- Markdown ---
+
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+// `generateMarkdown` appends details as ` _(details)_`
+const INLINE_DETAILS = /\s+_\((.*)\)_\s*$/;
+// Cross-link lines in the relationships section: `Source → Target _(label)_`
+const RELATIONSHIP = /^(.+?)\s+→\s+(.+?)(?:\s+_\((.*)\)_)?\s*$/;
+// Speaker turns in the transcript section: `**Speaker:** text`
+const SPEAKER_TURN = /^\*\*(.+?):\*\*\s+(.*)$/;
+
+const parseItemText = (text: string): MindMapNode => {
+  let label = text.trim();
+  let category: MindMapNode['category'];
+
+  const checkbox = label.match(/^\[([ xX])\]\s+(.*)$/);
+  if (checkbox) {
+    category = 'task';
+    label = checkbox[2];
+  }
+
+  let details: string | undefined;
+  const detailsMatch = label.match(INLINE_DETAILS);
+  if (detailsMatch) {
+    details = detailsMatch[1];
+    label = label.slice(0, detailsMatch.index).trim();
+  }
+
+  // Strip emphasis around the whole label
+  label = label.replace(/^(\*\*|__)(.*)\1$/, '$2');
+
+  const node = createNode(label, details);
+  if (category) node.category = category;
+  return node;
+};
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|(?<=[。！？])\s*/).map(s => s.trim()).filter(Boolean);
+
+// Resolves relationship endpoints by label (the first node with that label wins); unknown labels are dropped
+const withRelationships = (data: MindMapData, relationships: { source: string; target: string; label?: string }[]): MindMapData => {
+  if (relationships.length === 0) return data;
+  const byLabel = new Map<string, string>();
+  const collect = (node: MindMapNode) => {
+    if (!byLabel.has(node.label)) byLabel.set(node.label, node.id);
+    node.children?.forEach(collect);
+  };
+  collect(data.root);
+  const crossLinks: CrossLink[] = relationships
+    .filter(r => byLabel.has(r.source) && byLabel.has(r.target))
+    .map(r => ({ id: crypto.randomUUID(), source: byLabel.get(r.source)!, target: byLabel.get(r.target)!, ...(r.label ? { label: r.label } : {}) }));
+  return crossLinks.length > 0 ? { ...data, crossLinks } : data;
+};
+
+/**
+ * Parses nested Markdown lists (tabs or spaces), with `#` headings as branches.
+ * The first `# Heading` becomes the root and a following `> quote` its details,
+ * matching what `generateMarkdown` produces. Its `## Relationships` and `## Transcript`
+ * sections are read back as cross-links between nodes with those labels and as the
+ * transcript, not as branches.
+ */
+export const parseMarkdownOutline = (content: string): MindMapData => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  let root: MindMapNode | null = null;
+  const topLevel: MindMapNode[] = [];
+  // Heading stack: index = heading depth below the root
+  const headings: MindMapNode[] = [];
+  // List stack for the current heading section
+  let listStack: { indent: number; node: MindMapNode }[] = [];
+  let lastNode: MindMapNode | null = null;
+  let section: 'outline' | 'relationships' | 'transcript' = 'outline';
+  const relationships: { source: string; target: string; label?: string }[] = [];
+  const transcript: TranscriptSentence[] = [];
+
+  const attach = (parent: MindMapNode | null, node: MindMapNode) => {
+    if (parent) parent.children!.push(node);
+    else topLevel.push(node);
+  };
+
+  const sectionParent = (): MindMapNode | null => headings[headings.length - 1] || root;
+
+  const measureIndent = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      listStack = [];
+      const title = heading[2].trim();
+      section = level === 2 && root && title === RELATIONSHIPS_HEADING ? 'relationships'
+        : level === 2 && root && title === TRANSCRIPT_HEADING ? 'transcript'
+        : 'outline';
+      if (section !== 'outline') {
+        lastNode = null;
+        return;
+      }
+      const node = parseItemText(heading[2]);
+      lastNode = node;
+
+      if (level === 1 && !root && topLevel.length === 0) {
+        root = node;
+        headings.length = 0;
+        return;
+      }
+      // Level 2 headings hang off the root, deeper ones off the nearest shallower heading
+      const depth = root ? level - 2 : level - 1;
+      headings.length = Math.max(0, depth);
+      attach(headings[depth - 1] || root, node);
+      headings[Math.max(0, depth)] = node;
+      return;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (section === 'relationships') {
+      const link = item?.[2].match(RELATIONSHIP);
+      if (link) relationships.push({ source: link[1], target: link[2], ...(link[3] ? { label: link[3] } : {}) });
+      return;
+    }
+    if (section === 'transcript') {
+      // One paragraph per speaker turn; node-to-sentence links are not part of the export
+      const turn = line.trim().match(SPEAKER_TURN);
+      splitSentences(turn ? turn[2] : line.trim()).forEach(text => {
+        transcript.push({ id: `s${transcript.length + 1}`, text, ...(turn ? { speaker: turn[1] } : {}) });
+      });
+      return;
+    }
+    if (item) {
+      const indent = measureIndent(item[1]);
+      const node = parseItemText(item[2]);
+      while (listStack.length > 0 && listStack[listStack.length - 1].indent >= indent) {
+        listStack.pop();
+      }
+      const parent = listStack.length > 0 ? listStack[listStack.length - 1].node : sectionParent();
+      attach(parent, node);
+      listStack.push({ indent, node });
+      lastNode = node;
+      return;
+    }
+
+    // Quotes and loose paragraphs become details of the previous node
+    const text = line.replace(/^\s*>\s?/, '').trim();
+    const target = lastNode || root;
+    if (target && text) {
+      target.details = target.details ? `${target.details}\n${text}` : text;
+    }
+  });
+
+  if (root) {
+    const finalRoot = root as MindMapNode;
+    finalRoot.children = [...finalRoot.children!, ...topLevel];
+    return withRelationships({ root: finalRoot, ...(transcript.length > 0 ? { transcript } : {}) }, relationships);
+  }
+  if (topLevel.length === 0) throw new Error("No outline found in Markdown");
+  return toMap(topLevel, 'Imported Outline');
+};
+
+// --- Mermaid ---
+
+// Node shapes: ((circle)), (rounded), [square], ))bang((, )cloud(, {{hexagon}}.
+// As in Mermaid, the shape must follow the ID directly; "Budget (Q3)" is a plain label.
+const MERMAID_SHAPE = /^([^\s([{)]*?)(\(\(|\)\)|\{\{|\(|\[|\))(.*?)(\)\)|\(\(|\}\}|\)|\]|\()$/;
+
+const parseMermaidLabel = (text: string): string => {
+  let label = text.trim();
+  const shape = label.match(MERMAID_SHAPE);
+  if (shape) label = shape[3].trim();
+  // Quoted and markdown strings: "text" or "`text`"
+  label = label.replace(/^"(.*)"$/, '$1').replace(/^`(.*)`$/, '$1');
+  return label.trim();
+};
+
+/**
+ * Parses Mermaid `mindmap` syntax; hierarchy is defined by indentation.
+ * Icon (`::icon(...)`) and class (`:::name`) decorations are ignored.
+ */
+export const parseMermaidMindmap = (content: string): MindMapData => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const start = lines.findIndex(l => l.trim() === 'mindmap');
+  if (start < 0) throw new Error("Not a Mermaid mindmap (missing 'mindmap' header)");
+
+  const roots: MindMapNode[] = [];
+  const stack: { indent: number; node: MindMapNode }[] = [];
+
+  lines.slice(start + 1).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('%%') || trimmed.startsWith('::icon(')) return;
+
+    const withoutClass = trimmed.replace(/\s*:::.*$/, '');
+    const label = parseMermaidLabel(withoutClass);
+    if (!label) return;
+
+    const indent = line.length - line.trimStart().length;
+    const node = createNode(label);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    if (stack.length > 0) stack[stack.length - 1].node.children!.push(node);
+    else roots.push(node);
+    stack.push({ indent, node });
+  });
+
+  if (roots.length === 0) throw new Error("Mermaid mindmap has no nodes");
+  return toMap(roots, 'Imported Mindmap');
+};
+
+// --- Dispatch ---
+
+export type ImportFormat = 'json' | 'markdown' | 'mermaid' | 'opml' | 'freemind' | 'xmind';
+
+export const detectImportFormat = (filename: string, content: string): ImportFormat => {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.xmind')) return 'xmind';
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.opml')) return 'opml';
+  if (lower.endsWith('.mm')) return 'freemind';
+  if (lower.endsWith('.mmd') || lower.endsWith('.mermaid')) return 'mermaid';
+  if (lower.endsWith('.md') || lower.endsWith('.markdown')) return 'markdown';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('PK')) return 'xmind';
+  if (trimmed.startsWith('{')) return 'json';
+  if (/^mindmap\b/.test(trimmed)) return 'mermaid';
+  if (/^(<\?xml[^>]*>\s*)?<opml\b/.test(trimmed)) return 'opml';
+  if (/^(<\?xml[^>]*>\s*)?<map\b/.test(trimmed)) return 'freemind';
+  return 'markdown';
+};
+
+// Imports any supported text file and runs the result through validation so repairs are reported uniformly.
+// The OPML/FreeMind/XMind parsers are only loaded when such a file is imported.
+export const importMapText = async (filename: string, content: string): Promise<ValidationResult> => {
+  switch (detectImportFormat(filename, content)) {
+    case 'json':
+      return importMindMapJSON(content);
+    case 'mermaid':
+      return validateMindMap(parseMermaidMindmap(content));
+    case 'opml':
+      return validateMindMap((await import('./mindMapFormats')).parseOpml(content));
+    case 'freemind':
+      return validateMindMap((await import('./mindMapFormats')).parseFreeMind(content));
+    case 'xmind':
+      throw new Error("XMind files must be imported as binary");
+    case 'markdown':
+      return validateMindMap(parseMarkdownOutline(content));
+  }
+};
+
+// XMind files are ZIP archives, everything else is read as text
+export const importMapFile = async (file: File): Promise<ValidationResult> => {
+  if (detectImportFormat(file.name, '') === 'xmind') {
+    const { parseXMind } = await import('./mindMapFormats');
+    return validateMindMap(await parseXMind(await file.arrayBuffer()));
+  }
+  return importMapText(file.name, await file.text());
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { collectFolders, collectTags, filterLibrary, LibraryFilter, parseTags, UNFILED } from './librarySearch';
+import { HistoryItem } from '../types';
+
+const item = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  timestamp: 0,
+  previewLabel: id,
+  data: { root: { id: `${id}-root`, label: id } },
+  ...overrides,
+});
+
+const library: HistoryItem[] = [
+  item('Alpha', {
+    timestamp: 3,
+    size: 100,
+    folder: 'Work',
+    tags: ['q3'],
+    data: { root: { id: 'a', label: 'Alpha', children: [{ id: 'a1', label: 'Vendor quotes', details: 'Ask ACME for a discount' }] } },
+  }),
+  item('Beta', { timestamp: 1, size: 300, tags: ['q3', 'travel'] }),
+  item('Gamma', { timestamp: 2, size: 200, folder: 'Home', pinned: true }),
+];
+
+const ALL: LibraryFilter = { query: '', folder: null, tag: null };
+const ids = (filter: LibraryFilter, sort: 'recent' | 'name' | 'size' = 'recent') =>
+  filterLibrary(library, filter, sort).map(match => match.item.id);
+
+describe('filterLibrary', () => {
+  it('sorts with pinned maps first', () => {
+    expect(ids(ALL, 'recent')).toEqual(['Gamma', 'Alpha', 'Beta']);
+    expect(ids(ALL, 'name')).toEqual(['Gamma', 'Alpha', 'Beta']);
+    expect(ids(ALL, 'size')).toEqual(['Gamma', 'Beta', 'Alpha']);
+  });
+
+  it('filters by folder, unfiled maps and tag', () => {
+    expect(ids({ ...ALL, folder: 'Work' })).toEqual(['Alpha']);
+    expect(ids({ ...ALL, folder: UNFILED })).toEqual(['Beta']);
+    expect(ids({ ...ALL, tag: 'q3' })).toEqual(['Alpha', 'Beta']);
+  });
+
+  it('searches node details and reports the matching node', () => {
+    const [match, ...rest] = filterLibrary(library, { ...ALL, query: 'acme' }, 'recent');
+    expect(rest).toEqual([]);
+    expect(match).toMatchObject({ item: { id: 'Alpha' }, snippet: 'Vendor quotes' });
+  });
+
+  it('requires every term, across metadata and nodes', () => {
+    expect(ids({ ...ALL, query: 'work discount' })).toEqual(['Alpha']);
+    expect(ids({ ...ALL, query: 'travel discount' })).toEqual([]);
+  });
+});
+
+describe('library metadata helpers', () => {
+  it('collects sorted unique folders and tags', () => {
+    expect(collectFolders(library)).toEqual(['Home', 'Work']);
+    expect(collectTags(library)).toEqual(['q3', 'travel']);
+  });
+
+  it('parses comma-separated tags, including full-width commas', () => {
+    expect(parseTags('work, Q3 planning,,work，旅行 ')).toEqual(['work', 'Q3 planning', '旅行']);
+  });
+});
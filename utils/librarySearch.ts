@@ -0,0 +1,73 @@
+import { HistoryItem, MindMapNode } from '../types';
+
+// --- My Maps Search, Filters & Sorting ---
+
+export type LibrarySort = 'recent' | 'name' | 'size';
+
+// Sentinel folder filter for maps that are not in any folder
+export const UNFILED = '\u0000unfiled';
+
+export interface LibraryFilter {
+  query: string;
+  // null shows every folder
+  folder: string | null;
+  tag: string | null;
+}
+
+export interface LibraryMatch {
+  item: HistoryItem;
+  // Label of the first node that matched the search, when it is not the map title
+  snippet?: string;
+}
+
+const collectNodes = (node: MindMapNode, nodes: MindMapNode[] = []): MindMapNode[] => {
+  nodes.push(node);
+  (node.children || []).forEach(child => collectNodes(child, nodes));
+  return nodes;
+};
+
+const nodeText = (node: MindMapNode) => `${node.label}\n${node.details || ''}`.toLowerCase();
+
+/**
+ * Full-text match across every node label and details, plus the map's tags and folder.
+ * Every whitespace-separated term has to appear somewhere in the map.
+ */
+const matchItem = (item: HistoryItem, terms: string[]): LibraryMatch | null => {
+  if (terms.length === 0) return { item };
+  const nodes = collectNodes(item.data.root);
+  const texts = nodes.map(nodeText);
+  const meta = [item.previewLabel, item.folder || '', ...(item.tags || [])].join('\n').toLowerCase();
+  const everything = `${meta}\n${texts.join('\n')}`;
+  if (!terms.every(term => everything.includes(term))) return null;
+
+  const hit = texts.findIndex(text => text.includes(terms[0]));
+  const snippet = hit > 0 ? nodes[hit].label : undefined;
+  return { item, ...(snippet ? { snippet } : {}) };
+};
+
+const comparators: Record<LibrarySort, (a: HistoryItem, b: HistoryItem) => number> = {
+  recent: (a, b) => b.timestamp - a.timestamp,
+  name: (a, b) => a.previewLabel.localeCompare(b.previewLabel),
+  size: (a, b) => (b.size || 0) - (a.size || 0),
+};
+
+/** Filters and sorts the library; pinned maps always come first. */
+export const filterLibrary = (items: HistoryItem[], filter: LibraryFilter, sort: LibrarySort): LibraryMatch[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items
+    .filter(item => filter.folder === null || (filter.folder === UNFILED ? !item.folder : item.folder === filter.folder))
+    .filter(item => filter.tag === null || (item.tags || []).includes(filter.tag))
+    .map(item => matchItem(item, terms))
+    .filter((match): match is LibraryMatch => match !== null)
+    .sort((a, b) => Number(!!b.item.pinned) - Number(!!a.item.pinned) || comparators[sort](a.item, b.item));
+};
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+export const collectFolders = (items: HistoryItem[]) => uniqueSorted(items.flatMap(item => (item.folder ? [item.folder] : [])));
+
+export const collectTags = (items: HistoryItem[]) => uniqueSorted(items.flatMap(item => item.tags || []));
+
+// "work, Q3 planning,,work" -> ['work', 'Q3 planning']
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(/[,，]/).map(tag => tag.trim()).filter(Boolean)));
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { treeEditCommand, updateNodeCommand } from './mapCommands';
+import { createCommandHistory } from './commandHistory';
+import { deleteSubtree, findNode } from './treeUtils';
+import { MindMapData } from '../types';
+
+const data: MindMapData = {
+  root: {
+    id: 'root',
+    label: 'Trip',
+    children: [
+      { id: 'a', label: 'Flights', category: 'task', children: [{ id: 'a1', label: 'Compare prices' }] },
+      { id: 'b', label: 'Hotel' },
+    ],
+  },
+};
+
+describe('updateNodeCommand', () => {
+  it('reverts exactly the patched fields, including ones that were unset', () => {
+    const command = updateNodeCommand(data, 'a', { label: 'Trains', details: 'Night train' })!;
+    const applied = command.apply(data);
+    expect(findNode(applied.root, 'a')).toMatchObject({ label: 'Trains', details: 'Night train', category: 'task' });
+
+    const reverted = findNode(command.revert(applied).root, 'a')!;
+    expect(reverted).toMatchObject({ label: 'Flights', category: 'task' });
+    expect(reverted.details).toBeUndefined();
+  });
+
+  it('returns null for unknown nodes and no-op patches', () => {
+    expect(updateNodeCommand(data, 'missing', { label: 'X' })).toBeNull();
+    expect(updateNodeCommand(data, 'b', { label: 'Hotel' })).toBeNull();
+  });
+});
+
+describe('treeEditCommand', () => {
+  it('restores the exact trees before and after the edit', () => {
+    const command = treeEditCommand(data, state => deleteSubtree(state, 'a'), 'Delete')!;
+    const after = command.apply(data);
+    expect(after.root.children!.map(c => c.id)).toEqual(['b']);
+    expect(command.revert(after)).toBe(data);
+    expect(command.apply(data)).toBe(after);
+  });
+
+  it('returns null when the edit changes nothing', () => {
+    expect(treeEditCommand(data, state => state, 'Nothing')).toBeNull();
+  });
+
+  it('round-trips through the history', () => {
+    const history = createCommandHistory<MindMapData>();
+    const edited = history.execute(treeEditCommand(data, state => deleteSubtree(state, 'b'), 'Delete')!, data);
+    const undone = history.undo(edited)!.state;
+    expect(undone).toEqual(data);
+    expect(history.redo(undone)!.state).toEqual(edited);
+  });
+});
@@ -0,0 +1,46 @@
+import { MindMapData, MindMapNode } from '../types';
+import { Command } from './commandHistory';
+import { findNode, updateNode } from './treeUtils';
+
+// --- Map Edit Commands ---
+
+export type MapCommand = Command<MindMapData>;
+
+// Captures the previous values of the patched fields so the change can be reverted exactly
+export const updateNodeCommand = (
+  data: MindMapData,
+  id: string,
+  patch: Partial<MindMapNode>,
+  label = 'Edit node'
+): MapCommand | null => {
+  const node = findNode(data.root, id);
+  if (!node) return null;
+  const before = Object.fromEntries(
+    Object.keys(patch).map(key => [key, node[key as keyof MindMapNode]])
+  ) as Partial<MindMapNode>;
+  // Skip no-op edits (e.g. closing the editor without changes) so they don't clutter the history
+  if (JSON.stringify(before) === JSON.stringify(patch)) return null;
+  return {
+    label,
+    apply: state => updateNode(state, id, patch),
+    revert: state => updateNode(state, id, before),
+  };
+};
+
+/**
+ * Wraps a pure structural edit (see treeUtils). The trees before and after are kept,
+ * so undo and redo restore them exactly, including sibling order.
+ */
+export const treeEditCommand = (
+  data: MindMapData,
+  edit: (data: MindMapData) => MindMapData,
+  label: string
+): MapCommand | null => {
+  const after = edit(data);
+  if (after === data) return null;
+  return {
+    label,
+    apply: () => after,
+    revert: () => data,
+  };
+};
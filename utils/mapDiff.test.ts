@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { diffMaps, DiffNode } from './mapDiff';
+import { MindMapData } from '../types';
+
+const before: MindMapData = {
+  root: {
+    id: 'r',
+    label: 'Trip',
+    children: [
+      { id: 'a', label: 'Flights', children: [{ id: 'a1', label: 'Compare prices' }] },
+      { id: 'b', label: 'Hotel', category: 'task', children: [{ id: 'b1', label: 'Old town' }, { id: 'b2', label: 'Near station' }] },
+      { id: 'c', label: 'Budget' },
+    ],
+  },
+};
+
+const flatten = (node: DiffNode): [string, string][] => [[node.id, node.status], ...node.children.flatMap(flatten)];
+
+describe('diffMaps', () => {
+  it('reports nothing for identical maps', () => {
+    const { tree, summary } = diffMaps(before, before);
+    expect(summary).toEqual({ added: 0, removed: 0, changed: 0, moved: 0 });
+    expect(flatten(tree).every(([, status]) => status === 'unchanged')).toBe(true);
+  });
+
+  it('classifies added, removed, changed and moved nodes', () => {
+    const after: MindMapData = {
+      root: {
+        id: 'r',
+        label: 'Trip',
+        children: [
+          { id: 'a', label: 'Flights', children: [{ id: 'a1', label: 'Compare prices' }, { id: 'b2', label: 'Near station' }] },
+          { id: 'c', label: 'Budget (EUR)', details: 'Max 2000' },
+          { id: 'd', label: 'Packing list' },
+        ],
+      },
+    };
+    const { tree, summary } = diffMaps(before, after);
+
+    expect(summary).toEqual({ added: 1, removed: 2, changed: 1, moved: 1 });
+    expect(Object.fromEntries(flatten(tree))).toMatchObject({ b2: 'moved', c: 'changed', d: 'added', b: 'removed', b1: 'removed' });
+    const budget = tree.children.find(n => n.id === 'c')!;
+    expect(budget).toMatchObject({ previousLabel: 'Budget', changedFields: ['label', 'details'] });
+  });
+
+  it('shows removed branches under their closest surviving ancestor, without children that moved away', () => {
+    const after: MindMapData = { root: { id: 'r', label: 'Trip', children: [{ id: 'a', label: 'Flights', children: [{ id: 'b1', label: 'Old town' }] }] } };
+    const { tree } = diffMaps(before, after);
+    const hotel = tree.children.find(n => n.id === 'b')!;
+    expect(hotel.status).toBe('removed');
+    expect(hotel.children.map(n => n.id)).toEqual(['b2']);
+    expect(tree.children.find(n => n.id === 'a')!.children.map(n => [n.id, n.status])).toEqual([['b1', 'moved'], ['a1', 'removed']]);
+  });
+});
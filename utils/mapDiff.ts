@@ -0,0 +1,97 @@
+import { MindMapData, MindMapNode } from '../types';
+
+// --- Revision Diff ---
+// Compares two versions of a map by node id and merges them into one tree for display:
+// the newer tree, with removed branches re-attached under their closest surviving ancestor.
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'moved' | 'unchanged';
+
+export interface DiffNode {
+  id: string;
+  label: string;
+  status: DiffStatus;
+  // Fields that differ for changed nodes, with the previous label when it was renamed
+  changedFields: string[];
+  previousLabel?: string;
+  children: DiffNode[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  moved: number;
+}
+
+const COMPARED_FIELDS: (keyof MindMapNode)[] = ['label', 'details', 'category', 'links', 'style'];
+
+const indexTree = (
+  node: MindMapNode,
+  nodes: Map<string, MindMapNode>,
+  parents: Map<string, string>,
+  parentId?: string
+) => {
+  nodes.set(node.id, node);
+  if (parentId) parents.set(node.id, parentId);
+  (node.children || []).forEach(child => indexTree(child, nodes, parents, node.id));
+};
+
+const changedFieldsOf = (before: MindMapNode, after: MindMapNode) =>
+  COMPARED_FIELDS.filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+
+export const diffMaps = (before: MindMapData, after: MindMapData): { tree: DiffNode; summary: DiffSummary } => {
+  const oldNodes = new Map<string, MindMapNode>();
+  const oldParents = new Map<string, string>();
+  indexTree(before.root, oldNodes, oldParents);
+  const newNodes = new Map<string, MindMapNode>();
+  const newParents = new Map<string, string>();
+  indexTree(after.root, newNodes, newParents);
+
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0, moved: 0 };
+
+  // Removed subtrees keep their old shape; children that survived elsewhere are shown there instead
+  const removedSubtree = (node: MindMapNode): DiffNode => {
+    summary.removed++;
+    return {
+      id: node.id,
+      label: node.label,
+      status: 'removed',
+      changedFields: [],
+      children: (node.children || []).filter(c => !newNodes.has(c.id)).map(removedSubtree),
+    };
+  };
+
+  // Group the roots of removed subtrees under the nearest ancestor that still exists
+  const removedUnder = new Map<string, MindMapNode[]>();
+  oldNodes.forEach((node, id) => {
+    if (newNodes.has(id)) return;
+    const parentId = oldParents.get(id);
+    if (parentId && !newNodes.has(parentId)) return;
+    const anchor = parentId || after.root.id;
+    removedUnder.set(anchor, [...(removedUnder.get(anchor) || []), node]);
+  });
+
+  const walk = (node: MindMapNode): DiffNode => {
+    const previous = oldNodes.get(node.id);
+    const changedFields = previous ? changedFieldsOf(previous, node) : [];
+    let status: DiffStatus = 'unchanged';
+    if (!previous) status = 'added';
+    else if (changedFields.length > 0) status = 'changed';
+    else if (oldParents.get(node.id) !== newParents.get(node.id)) status = 'moved';
+    if (status !== 'unchanged') summary[status]++;
+
+    return {
+      id: node.id,
+      label: node.label,
+      status,
+      changedFields,
+      ...(previous && previous.label !== node.label ? { previousLabel: previous.label } : {}),
+      children: [
+        ...(node.children || []).map(walk),
+        ...(removedUnder.get(node.id) || []).map(removedSubtree),
+      ],
+    };
+  };
+
+  return { tree: walk(after.root), summary };
+};
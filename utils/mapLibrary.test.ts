@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { HistoryItem, MindMapData } from '../types';
+
+// The library keeps its connection in module state, so every test loads a fresh copy on a fresh database
+const loadLibrary = () => import('./mapLibrary');
+
+const map = (label: string, rootId = 'root'): MindMapData => ({ root: { id: rootId, label, children: [{ id: `${rootId}-1`, label: 'Child' }] } });
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  localStorage.clear();
+  let now = 1700000000000;
+  vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('saveMap', () => {
+  it('updates the entry with the same root and records a revision per change', async () => {
+    const { getRevisions, getSavedMaps, saveMap } = await loadLibrary();
+    const first = await saveMap(map('Plan'), 'generation');
+    const second = await saveMap(map('Plan v2'), 'save');
+    expect(second.id).toBe(first.id);
+
+    const saved = await getSavedMaps();
+    expect(saved.map(item => item.previewLabel)).toEqual(['Plan v2']);
+    const revisions = await getRevisions(first.id);
+    expect(revisions.map(r => [r.reason, r.data.root.label])).toEqual([['save', 'Plan v2'], ['generation', 'Plan']]);
+  });
+
+  it('does not add a revision when the map is unchanged', async () => {
+    const { getRevisions, saveMap } = await loadLibrary();
+    const item = await saveMap(map('Plan'));
+    await saveMap(map('Plan'), 'enrichment');
+    expect(await getRevisions(item.id)).toHaveLength(1);
+  });
+
+  it('keeps separate entries for different roots', async () => {
+    const { getSavedMaps, saveMap } = await loadLibrary();
+    await saveMap(map('A', 'a'));
+    await saveMap(map('B', 'b'));
+    expect((await getSavedMaps()).map(item => item.previewLabel)).toEqual(['B', 'A']);
+  });
+});
+
+describe('deleteMaps', () => {
+  it('removes maps together with their revisions', async () => {
+    const { deleteMaps, getRevisions, getSavedMaps, getStorageUsage, saveMap } = await loadLibrary();
+    const a = await saveMap(map('A', 'a'));
+    await saveMap(map('A2', 'a'));
+    const b = await saveMap(map('B', 'b'));
+    await deleteMaps([a.id]);
+
+    expect((await getSavedMaps()).map(item => item.id)).toEqual([b.id]);
+    expect(await getRevisions(a.id)).toEqual([]);
+    expect(await getStorageUsage()).toMatchObject({ mapCount: 1, revisionCount: 1 });
+  });
+
+  it('deletes the recordings stored under the map and reports their ids', async () => {
+    const { deleteMap, getRecording, saveMap, saveRecording } = await loadLibrary();
+    const item = await saveMap(map('A', 'a'));
+    await saveRecording('rec-1', 'a', new Blob(['audio']));
+    await saveRecording('rec-2', 'b', new Blob(['audio']));
+
+    expect(await deleteMap(item.id)).toEqual(['rec-1']);
+    expect(await getRecording('rec-1')).toBeNull();
+    expect(await getRecording('rec-2')).not.toBeNull();
+  });
+});
+
+describe('legacy localStorage history', () => {
+  const legacy: HistoryItem[] = [
+    { id: 'old-1', timestamp: 1600000000000, previewLabel: 'Old map', data: map('Old map', 'old') },
+    { id: 'broken', timestamp: 1600000001000, previewLabel: 'Broken', data: null as any },
+  ];
+
+  it('moves valid maps into the library with a first revision and removes the key', async () => {
+    localStorage.setItem('voicemap_history', JSON.stringify(legacy));
+    const { getRevisions, getSavedMaps } = await loadLibrary();
+
+    const saved = await getSavedMaps();
+    expect(saved.map(item => [item.id, item.timestamp, item.data.root.label])).toEqual([['old-1', 1600000000000, 'Old map']]);
+    expect(saved[0].size).toBeGreaterThan(0);
+    expect((await getRevisions('old-1')).map(r => [r.reason, r.timestamp])).toEqual([['save', 1600000000000]]);
+    expect(localStorage.getItem('voicemap_history')).toBeNull();
+  });
+
+  it('leaves unreadable history in place so the migration can run again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('voicemap_history', '[{"id":');
+    const { getSavedMaps } = await loadLibrary();
+    expect(await getSavedMaps()).toEqual([]);
+    expect(localStorage.getItem('voicemap_history')).toBe('[{"id":');
+  });
+});
@@ -0,0 +1,290 @@
+import { HistoryItem, HistoryItemMeta, MapRevision, MindMapData, RevisionReason } from '../types';
+import { normalizeMindMap } from './mapValidation';
+
+// --- Map Library (IndexedDB) ---
+// One record per map, matched to the edited map by its root node id, plus a list of revisions
+// per map and the source recordings its nodes were structured from. Nothing is ever evicted automatically: a write the browser refuses rejects with the
+// original error so the user can free space themselves.
+
+const DB_NAME = 'voicemap_library';
+const DB_VERSION = 3;
+const MAPS_STORE = 'maps';
+const REVISIONS_STORE = 'revisions';
+const RECORDINGS_STORE = 'recordings';
+
+// Pre-IndexedDB storage: a single JSON array of HistoryItems in localStorage
+const LEGACY_HISTORY_KEY = 'voicemap_history';
+
+export interface StorageUsage {
+  mapCount: number;
+  revisionCount: number;
+  // Serialized size of all maps and revisions plus the recordings in the library, in bytes
+  librarySize: number;
+  // Origin-wide figures from the Storage API, when the browser provides them
+  usage?: number;
+  quota?: number;
+  persisted: boolean;
+}
+
+// Original audio behind a map, referenced from node audio spans by id
+interface StoredRecording {
+  id: string;
+  rootId: string;
+  timestamp: number;
+  blob: Blob;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Library transaction aborted"));
+  });
+
+export const mapSize = (data: MindMapData): number =>
+  new TextEncoder().encode(JSON.stringify(data)).length;
+
+const toItem = (data: MindMapData, existing?: HistoryItem): HistoryItem => ({
+  ...existing,
+  id: existing?.id || crypto.randomUUID(),
+  timestamp: Date.now(),
+  data,
+  previewLabel: data.root.label || 'Untitled Map',
+  size: mapSize(data),
+});
+
+const revisionRange = (mapId: string) => IDBKeyRange.bound([mapId, -Infinity], [mapId, Infinity]);
+
+// Appends a revision unless the map is unchanged since the latest one
+const addRevision = async (store: IDBObjectStore, item: HistoryItem, reason: RevisionReason) => {
+  const cursor = await promisify(store.index('mapTime').openCursor(revisionRange(item.id), 'prev'));
+  const latest: MapRevision | undefined = cursor?.value;
+  if (latest && JSON.stringify(latest.data) === JSON.stringify(item.data)) return;
+  const revision: MapRevision = {
+    id: crypto.randomUUID(),
+    mapId: item.id,
+    timestamp: item.timestamp,
+    reason,
+    data: item.data,
+    size: item.size ?? mapSize(item.data),
+  };
+  store.put(revision);
+};
+
+// Copies the old localStorage history into the library once, then removes the key.
+// If anything fails the key is left in place and the migration runs again on the next start.
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const historyJSON = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!historyJSON) return;
+  try {
+    const history: HistoryItem[] = JSON.parse(historyJSON);
+    const tx = db.transaction([MAPS_STORE, REVISIONS_STORE], 'readwrite');
+    const store = tx.objectStore(MAPS_STORE);
+    const revisions = tx.objectStore(REVISIONS_STORE);
+    for (const item of Array.isArray(history) ? history : []) {
+      if (!item?.id || !item.data?.root) continue;
+      const migrated = { ...item, size: mapSize(item.data) };
+      store.put(migrated);
+      await addRevision(revisions, migrated, 'save');
+    }
+    await completion(tx);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  } catch (e) {
+    console.error("Failed to migrate saved maps from localStorage", e);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(MAPS_STORE, { keyPath: 'id' });
+          store.createIndex('rootId', 'data.root.id');
+        }
+        if (event.oldVersion < 2) {
+          const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+          revisions.createIndex('mapTime', ['mapId', 'timestamp']);
+          // Maps saved before revisions existed start their timeline with their current state
+          const cursorRequest = request.transaction!.objectStore(MAPS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const item: HistoryItem = cursor.value;
+            const size = item.size ?? mapSize(item.data);
+            revisions.put({ id: crypto.randomUUID(), mapId: item.id, timestamp: item.timestamp, reason: 'save', data: item.data, size });
+            cursor.continue();
+          };
+        }
+        if (event.oldVersion < 3) {
+          const recordings = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+          recordings.createIndex('rootId', 'rootId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateLegacyHistory(db);
+      return db;
+    });
+    // Let the next call retry instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Ask the browser not to clear the library under storage pressure. Browsers may decline.
+const requestPersistence = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- Public API ---
+
+/**
+ * Saves the map, updating the existing entry for the same root node, and records a revision
+ * for `reason`. Rejects if the write fails.
+ */
+export const saveMap = async (data: MindMapData, reason: RevisionReason = 'save'): Promise<HistoryItem> => {
+  const db = await openLibrary();
+  const tx = db.transaction([MAPS_STORE, REVISIONS_STORE], 'readwrite');
+  const store = tx.objectStore(MAPS_STORE);
+  const existing: HistoryItem | undefined = await promisify(store.index('rootId').get(data.root.id));
+  const item = toItem(data, existing);
+  store.put(item);
+  await addRevision(tx.objectStore(REVISIONS_STORE), item, reason);
+  await completion(tx);
+  requestPersistence();
+  return item;
+};
+
+/**
+ * Deletes the maps together with all of their revisions and recordings, in one transaction.
+ * Resolves to the ids of the deleted recordings.
+ */
+export const deleteMaps = async (ids: string[]): Promise<string[]> => {
+  const db = await openLibrary();
+  const tx = db.transaction([MAPS_STORE, REVISIONS_STORE, RECORDINGS_STORE], 'readwrite');
+  const maps = tx.objectStore(MAPS_STORE);
+  const revisions = tx.objectStore(REVISIONS_STORE);
+  const recordings = tx.objectStore(RECORDINGS_STORE);
+  const deletedRecordings: string[] = [];
+  for (const id of ids) {
+    const item: HistoryItem | undefined = await promisify(maps.get(id));
+    maps.delete(id);
+    const revisionKeys = await promisify(revisions.index('mapTime').getAllKeys(revisionRange(id)));
+    revisionKeys.forEach(key => revisions.delete(key));
+    if (item) {
+      const recordingKeys = await promisify(recordings.index('rootId').getAllKeys(item.data.root.id));
+      recordingKeys.forEach(key => {
+        recordings.delete(key);
+        deletedRecordings.push(String(key));
+      });
+    }
+  }
+  await completion(tx);
+  return deletedRecordings;
+};
+
+export const deleteMap = (id: string): Promise<string[]> => deleteMaps([id]);
+
+/** Updates tags, folder or pinning without touching the map content, timestamp or revisions. */
+export const updateMapMeta = async (id: string, patch: HistoryItemMeta): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(MAPS_STORE, 'readwrite');
+  const store = tx.objectStore(MAPS_STORE);
+  const item: HistoryItem | undefined = await promisify(store.get(id));
+  if (!item) return;
+  const updated: HistoryItem = { ...item, ...patch };
+  if (!updated.tags?.length) delete updated.tags;
+  if (!updated.folder) delete updated.folder;
+  if (!updated.pinned) delete updated.pinned;
+  store.put(updated);
+  await completion(tx);
+};
+
+/**
+ * Keeps the audio a map was structured from, so node audio spans can be played back.
+ * Recordings are deleted together with the map whose root id they are stored under.
+ */
+export const saveRecording = async (id: string, rootId: string, blob: Blob): Promise<void> => {
+  const db = await openLibrary();
+  const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+  const recording: StoredRecording = { id, rootId, timestamp: Date.now(), blob };
+  tx.objectStore(RECORDINGS_STORE).put(recording);
+  await completion(tx);
+  requestPersistence();
+};
+
+export const getRecording = async (id: string): Promise<Blob | null> => {
+  const db = await openLibrary();
+  const recording: StoredRecording | undefined = await promisify(db.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE).get(id));
+  return recording?.blob || null;
+};
+
+export const findSavedMap = async (rootId: string): Promise<HistoryItem | null> => {
+  const db = await openLibrary();
+  const item = await promisify(db.transaction(MAPS_STORE).objectStore(MAPS_STORE).index('rootId').get(rootId));
+  return item || null;
+};
+
+/** Revisions of one map, newest first. */
+export const getRevisions = async (mapId: string): Promise<MapRevision[]> => {
+  const db = await openLibrary();
+  const index = db.transaction(REVISIONS_STORE).objectStore(REVISIONS_STORE).index('mapTime');
+  const revisions: MapRevision[] = await promisify(index.getAll(revisionRange(mapId)));
+  return revisions.reverse();
+};
+
+/** All saved maps, most recently saved first. Entries that cannot be repaired are skipped. */
+export const getSavedMaps = async (): Promise<HistoryItem[]> => {
+  const db = await openLibrary();
+  const items: HistoryItem[] = await promisify(db.transaction(MAPS_STORE).objectStore(MAPS_STORE).getAll());
+  return items
+    .flatMap(item => {
+      try {
+        return [{ ...item, data: normalizeMindMap(item.data, `saved map ${item.id}`) }];
+      } catch (e) {
+        console.error("Skipping corrupted saved map", item?.id, e);
+        return [];
+      }
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const db = await openLibrary();
+  const tx = db.transaction([MAPS_STORE, REVISIONS_STORE, RECORDINGS_STORE]);
+  const items: HistoryItem[] = await promisify(tx.objectStore(MAPS_STORE).getAll());
+  const revisions: MapRevision[] = await promisify(tx.objectStore(REVISIONS_STORE).getAll());
+  const recordings: StoredRecording[] = await promisify(tx.objectStore(RECORDINGS_STORE).getAll());
+  const librarySize = items.reduce((sum, item) => sum + (item.size ?? mapSize(item.data)), 0)
+    + revisions.reduce((sum, revision) => sum + revision.size, 0)
+    + recordings.reduce((sum, recording) => sum + recording.blob.size, 0);
+  let estimate: StorageEstimate = {};
+  let persisted = false;
+  try {
+    if (navigator.storage?.estimate) estimate = await navigator.storage.estimate();
+    if (navigator.storage?.persisted) persisted = await navigator.storage.persisted();
+  } catch (e) {
+    console.error("Storage estimate unavailable", e);
+  }
+  return { mapCount: items.length, revisionCount: revisions.length, librarySize, usage: estimate.usage, quota: estimate.quota, persisted };
+};
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { validateMindMap } from './mapValidation';
+import { collectSubtreeIds } from './treeUtils';
+import { MindMapData } from '../types';
+
+describe('validateMindMap', () => {
+  it('returns a clean map unchanged and without repairs', () => {
+    const input: MindMapData = {
+      root: { id: 'r', label: 'Trip', category: 'idea', children: [{ id: 'a', label: 'Book hotel', category: 'task', createdAt: 1 }] },
+      crossLinks: [{ id: 'l1', source: 'r', target: 'a', label: 'needs' }],
+    };
+    const { data, repairs } = validateMindMap(input);
+    expect(data).toEqual(input);
+    expect(repairs).toEqual([]);
+  });
+
+  it('throws when no root can be recovered', () => {
+    expect(() => validateMindMap(null)).toThrow('missing root');
+    expect(() => validateMindMap({ root: 'text' })).toThrow('root is not an object');
+  });
+
+  it('wraps a bare node in a map', () => {
+    const { data, repairs } = validateMindMap({ id: 'r', label: 'Only node' });
+    expect(data.root.label).toBe('Only node');
+    expect(repairs).toContain('Wrapped a bare node in a map object');
+  });
+
+  it('regenerates missing and duplicate IDs', () => {
+    const { data, repairs } = validateMindMap({
+      root: { id: 'r', label: 'Root', children: [{ label: 'A' }, { id: 'r', label: 'B' }, { id: 7, label: 'C' }] },
+    });
+    const ids = collectSubtreeIds(data.root);
+    expect(new Set(ids).size).toBe(4);
+    expect(ids).toContain('7');
+    expect(repairs).toEqual(expect.arrayContaining(['1 missing IDs regenerated', '1 duplicate IDs regenerated']));
+  });
+
+  it('coerces categories, labels, children and style values', () => {
+    const { data, repairs } = validateMindMap({
+      root: {
+        id: 'r',
+        label: '',
+        details: 'A long description of the root',
+        category: 'Action Item',
+        style: { shape: 'hexagon', fontSize: 'lg' },
+        children: { id: 'c', label: 'Single child', category: 'banana' },
+        color: 'red',
+      },
+    });
+    expect(data.root.label).toBe('A long description of the root');
+    expect(data.root.category).toBe('task');
+    expect(data.root.style).toEqual({ fontSize: 'lg' });
+    expect(data.root.children).toEqual([{ id: 'c', label: 'Single child', category: 'idea' }]);
+    expect(repairs).toContain('Removed unknown fields: color');
+  });
+
+  it('cuts branches deeper than maxDepth', () => {
+    const { data } = validateMindMap(
+      { root: { id: 'r', label: '0', children: [{ id: 'a', label: '1', children: [{ id: 'b', label: '2' }] }] } },
+      { maxDepth: 1 }
+    );
+    expect(data.root.children![0].children).toBeUndefined();
+  });
+
+  it('drops cross-links to unknown nodes, self-links and reversed duplicates', () => {
+    const { data } = validateMindMap({
+      root: { id: 'r', label: 'Root', children: [{ id: 'a', label: 'A' }] },
+      crossLinks: [
+        { id: 'l1', source: 'r', target: 'a', style: 'wavy' },
+        { id: 'l2', source: 'a', target: 'r' },
+        { id: 'l3', source: 'a', target: 'a' },
+        { id: 'l4', source: 'a', target: 'gone' },
+      ],
+    });
+    expect(data.crossLinks).toEqual([{ id: 'l1', source: 'r', target: 'a' }]);
+  });
+
+  it('orders audio spans and removes invalid ones', () => {
+    const { data } = validateMindMap({
+      root: { id: 'r', label: 'Root', audio: { start: 9, end: 3, recordingId: 'rec' }, children: [{ id: 'a', label: 'A', audio: { start: 'x' } }] },
+    });
+    expect(data.root.audio).toEqual({ start: 3, end: 9, recordingId: 'rec' });
+    expect(data.root.children![0].audio).toBeUndefined();
+  });
+
+  it('keeps only sentence references that exist in the transcript', () => {
+    const { data, repairs } = validateMindMap({
+      root: { id: 'r', label: 'Root', sentenceIds: [1, 's2', 's2', 'missing'], children: [{ id: 'a', label: 'A', sentenceIds: ['gone'] }] },
+      transcript: [{ id: 1, text: ' Hello. ', speaker: 'Ana' }, { id: 's2', text: 'World.' }, { id: 's3', text: '  ' }],
+    });
+    expect(data.transcript).toEqual([{ id: '1', text: 'Hello.', speaker: 'Ana' }, { id: 's2', text: 'World.' }]);
+    expect(data.root.sentenceIds).toEqual(['1', 's2']);
+    expect(data.root.children![0].sentenceIds).toBeUndefined();
+    expect(repairs).toContain('2 unknown sentence references removed');
+  });
+});
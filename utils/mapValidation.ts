@@ -0,0 +1,310 @@
+import { AudioSpan, CrossLink, CrossLinkStyle, MindMapData, MindMapNode, NodeCategory, TranscriptSentence } from '../types';
+
+// --- Mind Map Validation & Repair ---
+
+export const MAX_TREE_DEPTH = 12;
+
+const CATEGORIES: NodeCategory[] = ['idea', 'task', 'question', 'fact'];
+
+// Common model/tool variants mapped onto our category set
+const CATEGORY_ALIASES: Record<string, NodeCategory> = {
+  concept: 'idea',
+  topic: 'idea',
+  theme: 'idea',
+  action: 'task',
+  todo: 'task',
+  'action item': 'task',
+  'to-do': 'task',
+  uncertainty: 'question',
+  issue: 'question',
+  statement: 'fact',
+  info: 'fact',
+  note: 'fact',
+};
+
+const SHAPES = ['rounded', 'square', 'circle'];
+const FONT_SIZES = ['sm', 'md', 'lg'];
+const FONT_FAMILIES = ['sans', 'serif', 'mono'];
+const CROSS_LINK_STYLES: CrossLinkStyle[] = ['dashed', 'dotted', 'solid'];
+
+const KNOWN_NODE_FIELDS = new Set(['id', 'label', 'details', 'category', 'children', 'links', 'style', 'createdAt', 'collapsed', 'audio', 'sentenceIds']);
+
+export interface ValidationOptions {
+  maxDepth?: number;
+}
+
+export interface ValidationResult {
+  data: MindMapData;
+  // Human-readable list of everything that had to be fixed; empty when the input was clean
+  repairs: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates and normalizes an untrusted mind map (model output, URL state, storage, imports).
+ * Regenerates missing/duplicate IDs, coerces categories, strips unknown fields and caps depth.
+ * Throws only when no usable root node can be recovered.
+ */
+export const validateMindMap = (input: unknown, options: ValidationOptions = {}): ValidationResult => {
+  const maxDepth = options.maxDepth ?? MAX_TREE_DEPTH;
+  const repairs: string[] = [];
+  const counts: Record<string, number> = {};
+  const count = (key: string) => { counts[key] = (counts[key] || 0) + 1; };
+  const strippedFields = new Set<string>();
+  const seenIds = new Set<string>();
+
+  let rawRoot: unknown;
+  if (isObject(input) && 'root' in input) {
+    rawRoot = input.root;
+  } else if (isObject(input) && 'label' in input) {
+    rawRoot = input;
+    repairs.push('Wrapped a bare node in a map object');
+  } else {
+    throw new Error("Invalid mind map: missing root");
+  }
+
+  if (!isObject(rawRoot)) {
+    throw new Error("Invalid mind map: root is not an object");
+  }
+
+  const normalizeNode = (raw: Record<string, any>, depth: number): MindMapNode => {
+    Object.keys(raw).forEach(key => {
+      if (!KNOWN_NODE_FIELDS.has(key)) strippedFields.add(key);
+    });
+
+    // ID
+    let id = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+    if (typeof id !== 'string' || !id.trim()) {
+      id = crypto.randomUUID();
+      count('missing IDs regenerated');
+    } else if (seenIds.has(id)) {
+      id = crypto.randomUUID();
+      count('duplicate IDs regenerated');
+    }
+    seenIds.add(id);
+
+    // Label
+    let label = typeof raw.label === 'string' || typeof raw.label === 'number' ? String(raw.label).trim() : '';
+    if (!label) {
+      label = typeof raw.details === 'string' && raw.details.trim() ? raw.details.trim().slice(0, 40) : 'Untitled';
+      count('missing labels filled in');
+    }
+
+    const node: MindMapNode = { id, label };
+
+    // Details
+    if (typeof raw.details === 'string') {
+      if (raw.details.trim()) node.details = raw.details;
+    } else if (raw.details !== undefined && raw.details !== null) {
+      node.details = String(raw.details);
+      count('non-text details converted');
+    }
+
+    // Category
+    if (raw.category !== undefined && raw.category !== null) {
+      const key = String(raw.category).trim().toLowerCase();
+      if ((CATEGORIES as string[]).includes(key)) {
+        node.category = key as NodeCategory;
+        if (key !== raw.category) count('categories normalized');
+      } else {
+        node.category = CATEGORY_ALIASES[key] || 'idea';
+        count('unknown categories coerced');
+      }
+    }
+
+    // Links
+    if (raw.links !== undefined) {
+      const links = Array.isArray(raw.links) ? raw.links : [];
+      const valid = links
+        .filter((l: any) => isObject(l) && typeof l.url === 'string' && /^https?:\/\//i.test(l.url))
+        .map((l: any) => ({ title: typeof l.title === 'string' && l.title ? l.title : l.url, url: l.url }));
+      if (valid.length !== links.length || !Array.isArray(raw.links)) count('invalid links removed');
+      if (valid.length > 0) node.links = valid;
+    }
+
+    // Style
+    if (isObject(raw.style)) {
+      const style: MindMapNode['style'] = {};
+      if (typeof raw.style.backgroundColor === 'string') style.backgroundColor = raw.style.backgroundColor;
+      if (SHAPES.includes(raw.style.shape)) style.shape = raw.style.shape;
+      if (FONT_SIZES.includes(raw.style.fontSize)) style.fontSize = raw.style.fontSize;
+      if (FONT_FAMILIES.includes(raw.style.fontFamily)) style.fontFamily = raw.style.fontFamily;
+      if (Object.keys(style).length !== Object.keys(raw.style).length) count('invalid style values removed');
+      if (Object.keys(style).length > 0) node.style = style;
+    } else if (raw.style !== undefined) {
+      count('invalid style values removed');
+    }
+
+    // Timestamp
+    if (raw.createdAt !== undefined) {
+      const createdAt = Number(raw.createdAt);
+      if (Number.isFinite(createdAt) && createdAt > 0) node.createdAt = createdAt;
+      else count('invalid timestamps removed');
+    }
+
+    // Fold state
+    if (raw.collapsed === true) node.collapsed = true;
+
+    // Source audio span
+    if (raw.audio !== undefined && raw.audio !== null) {
+      const start = Number(raw.audio?.start);
+      const end = Number(raw.audio?.end);
+      if (isObject(raw.audio) && Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end >= 0) {
+        const audio: AudioSpan = { start: Math.min(start, end), end: Math.max(start, end) };
+        if (typeof raw.audio.recordingId === 'string' && raw.audio.recordingId) audio.recordingId = raw.audio.recordingId;
+        node.audio = audio;
+      } else {
+        count('invalid audio spans removed');
+      }
+    }
+
+    // Transcript references, checked against the transcript once the whole map is read
+    if (Array.isArray(raw.sentenceIds)) {
+      const sentenceIds: string[] = raw.sentenceIds
+        .map((id: unknown) => (typeof id === 'number' ? String(id) : id))
+        .filter((id: unknown): id is string => typeof id === 'string' && id !== '');
+      if (sentenceIds.length > 0) node.sentenceIds = Array.from(new Set(sentenceIds));
+    } else if (raw.sentenceIds !== undefined && raw.sentenceIds !== null) {
+      count('invalid sentence references removed');
+    }
+
+    // Children
+    let rawChildren: unknown[] = [];
+    if (Array.isArray(raw.children)) {
+      rawChildren = raw.children;
+    } else if (isObject(raw.children)) {
+      rawChildren = [raw.children];
+      count('single child objects wrapped in arrays');
+    } else if (raw.children !== undefined && raw.children !== null) {
+      count('non-array children removed');
+    }
+
+    if (rawChildren.length > 0) {
+      if (depth >= maxDepth) {
+        count(`branches deeper than ${maxDepth} levels cut`);
+      } else {
+        const children = rawChildren.filter(isObject);
+        if (children.length !== rawChildren.length) count('invalid child entries removed');
+        node.children = children.map(child => normalizeNode(child, depth + 1));
+      }
+    }
+
+    return node;
+  };
+
+  const root = normalizeNode(rawRoot, 0);
+  const crossLinks = isObject(input) && 'root' in input
+    ? normalizeCrossLinks(input.crossLinks, seenIds, count)
+    : [];
+  const transcript = isObject(input) && 'root' in input
+    ? normalizeTranscript(input.transcript, count)
+    : [];
+  pruneSentenceIds(root, new Set(transcript.map(sentence => sentence.id)), count);
+
+  if (strippedFields.size > 0) {
+    repairs.push(`Removed unknown fields: ${Array.from(strippedFields).join(', ')}`);
+  }
+  Object.entries(counts).forEach(([key, n]) => repairs.push(`${n} ${key}`));
+
+  return {
+    data: {
+      root,
+      ...(crossLinks.length > 0 ? { crossLinks } : {}),
+      ...(transcript.length > 0 ? { transcript } : {}),
+    },
+    repairs,
+  };
+};
+
+// Drops node references to sentences that are not in the transcript
+const pruneSentenceIds = (node: MindMapNode, sentenceIds: Set<string>, count: (key: string) => void) => {
+  if (node.sentenceIds) {
+    const kept = node.sentenceIds.filter(id => sentenceIds.has(id));
+    if (kept.length !== node.sentenceIds.length) count('unknown sentence references removed');
+    if (kept.length > 0) node.sentenceIds = kept;
+    else delete node.sentenceIds;
+  }
+  node.children?.forEach(child => pruneSentenceIds(child, sentenceIds, count));
+};
+
+/**
+ * Keeps transcript sentences with text, in order. Speakers are optional; missing or
+ * duplicate sentence ids are regenerated.
+ */
+export const normalizeTranscript = (
+  input: unknown,
+  count: (key: string) => void = () => {}
+): TranscriptSentence[] => {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    count('invalid transcripts removed');
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const sentences: TranscriptSentence[] = [];
+  input.forEach(raw => {
+    if (!isObject(raw) || typeof raw.text !== 'string' || !raw.text.trim()) {
+      count('invalid transcript sentences removed');
+      return;
+    }
+    const rawId = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+    const id = typeof rawId === 'string' && rawId && !seenIds.has(rawId) ? rawId : crypto.randomUUID();
+    seenIds.add(id);
+    const sentence: TranscriptSentence = { id, text: raw.text.trim() };
+    if (typeof raw.speaker === 'string' && raw.speaker.trim()) sentence.speaker = raw.speaker.trim();
+    sentences.push(sentence);
+  });
+  return sentences;
+};
+
+/**
+ * Keeps cross-links whose endpoints exist in the map. Self-links and duplicates
+ * (same endpoints in either direction) are dropped.
+ */
+export const normalizeCrossLinks = (
+  input: unknown,
+  nodeIds: Set<string>,
+  count: (key: string) => void = () => {}
+): CrossLink[] => {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    count('invalid cross-links removed');
+    return [];
+  }
+  const seenPairs = new Set<string>();
+  const seenLinkIds = new Set<string>();
+  const links: CrossLink[] = [];
+  input.forEach(raw => {
+    if (!isObject(raw)) {
+      count('invalid cross-links removed');
+      return;
+    }
+    const source = String(raw.source ?? '');
+    const target = String(raw.target ?? '');
+    const pair = [source, target].sort().join('|');
+    if (!nodeIds.has(source) || !nodeIds.has(target) || source === target || seenPairs.has(pair)) {
+      count('invalid cross-links removed');
+      return;
+    }
+    seenPairs.add(pair);
+    const id = typeof raw.id === 'string' && raw.id && !seenLinkIds.has(raw.id) ? raw.id : crypto.randomUUID();
+    seenLinkIds.add(id);
+    const link: CrossLink = { id, source, target };
+    if (typeof raw.label === 'string' && raw.label.trim()) link.label = raw.label.trim();
+    if (CROSS_LINK_STYLES.includes(raw.style)) link.style = raw.style;
+    if (typeof raw.color === 'string' && raw.color) link.color = raw.color;
+    links.push(link);
+  });
+  return links;
+};
+
+// Convenience wrapper that logs repairs and returns only the data
+export const normalizeMindMap = (input: unknown, source: string, options?: ValidationOptions): MindMapData => {
+  const { data, repairs } = validateMindMap(input, options);
+  if (repairs.length > 0) {
+    console.warn(`Repaired mind map from ${source}:`, repairs);
+  }
+  return data;
+};
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { generateFreeMind, generateOpml, generateXMind, parseFreeMind, parseOpml, parseXMind } from './mindMapFormats';
+import { createZip } from './zipUtils';
+import { validateMindMap } from './mapValidation';
+import { MindMapData, MindMapNode } from '../types';
+
+// Everything but the regenerated IDs, with cross-link endpoints given as labels
+const shape = (data: MindMapData) => {
+  const labels = new Map<string, string>();
+  const visit = (node: MindMapNode): any => {
+    labels.set(node.id, node.label);
+    const { id, children, ...rest } = node;
+    return { ...rest, ...(children && children.length > 0 ? { children: children.map(visit) } : {}) };
+  };
+  const root = visit(data.root);
+  const crossLinks = (data.crossLinks || []).map(({ id, source, target, ...rest }) => ({ ...rest, source: labels.get(source), target: labels.get(target) }));
+  return { root, crossLinks };
+};
+
+const sample: MindMapData = {
+  root: {
+    id: 'r',
+    label: 'Research plan',
+    details: 'Spring term',
+    category: 'idea',
+    createdAt: 1700000000000,
+    children: [
+      {
+        id: 'a',
+        label: 'Read papers & notes',
+        details: 'Two per week\nSummarize each',
+        category: 'task',
+        createdAt: 1700000001000,
+        links: [{ title: 'Reading list', url: 'https://example.com/list' }],
+        collapsed: true,
+        children: [{ id: 'a1', label: 'Attention <paper>', category: 'fact', createdAt: 1700000002000 }],
+      },
+      { id: 'b', label: 'Open questions?', category: 'question', createdAt: 1700000003000 },
+    ],
+  },
+  crossLinks: [{ id: 'l1', source: 'a1', target: 'b', label: 'raises' }],
+};
+
+// jsdom's Blob has no arrayBuffer(), so read it the way older browsers would
+const blobToBuffer = (blob: Blob) => new Promise<ArrayBuffer>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+describe('OPML', () => {
+  it('round-trips details, categories, links, timestamps and cross-links', () => {
+    const { collapsed, ...withoutFold } = sample.root.children![0];
+    const data = { ...sample, root: { ...sample.root, children: [withoutFold, sample.root.children![1]] } };
+    expect(shape(validateMindMap(parseOpml(generateOpml(data))).data)).toEqual(shape(data));
+  });
+
+  it('wraps several top-level outlines under the document title', () => {
+    const { root } = parseOpml('<opml version="2.0"><head><title>Inbox</title></head><body><outline text="A"/><outline text="B"/></body></opml>');
+    expect(root.label).toBe('Inbox');
+    expect(root.children!.map(c => c.label)).toEqual(['A', 'B']);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseOpml('<opml><body>')).toThrow('Invalid XML file');
+  });
+});
+
+describe('FreeMind', () => {
+  it('round-trips the map, fold state included', () => {
+    expect(shape(validateMindMap(parseFreeMind(generateFreeMind(sample))).data)).toEqual(shape(sample));
+  });
+});
+
+describe('XMind', () => {
+  it('round-trips the map, timestamps included', async () => {
+    const parsed = await parseXMind(await blobToBuffer(generateXMind(sample)));
+    expect(shape(validateMindMap(parsed).data)).toEqual(shape(sample));
+  });
+
+  it('prefers content.json over the placeholder content.xml of XMind 2020+ files', async () => {
+    const archive = createZip([
+      { name: 'content.json', content: JSON.stringify([{ id: 's', class: 'sheet', rootTopic: { id: 't', title: 'Real topic', children: { attached: [{ id: 'c', title: 'Child' }] } } }]) },
+      { name: 'content.xml', content: '<?xml version="1.0"?><xmap-content><sheet id="s"><topic id="w"><title>Warning: this file can not be opened normally</title></topic></sheet></xmap-content>' },
+    ]);
+    const { root } = await parseXMind(await blobToBuffer(archive));
+    expect(root.label).toBe('Real topic');
+    expect(root.children!.map(c => c.label)).toEqual(['Child']);
+  });
+
+  it('reads XMind 8 files that only have content.xml', async () => {
+    const archive = createZip([
+      { name: 'content.xml', content: '<?xml version="1.0"?><xmap-content><sheet id="s"><topic id="t" timestamp="1700000000000"><title>Legacy</title></topic></sheet></xmap-content>' },
+    ]);
+    const { root } = await parseXMind(await blobToBuffer(archive));
+    expect(root).toMatchObject({ label: 'Legacy', createdAt: 1700000000000 });
+  });
+});
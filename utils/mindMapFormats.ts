@@ -0,0 +1,457 @@
+import { CrossLink, CrossLinkStyle, MindMapData, MindMapNode, NodeCategory } from '../types';
+import { createZip, readZip } from './zipUtils';
+
+// --- Outliner & Desktop Mind Map Formats (OPML, FreeMind, XMind) ---
+
+type Link = { title: string; url: string };
+
+const CATEGORIES: NodeCategory[] = ['idea', 'task', 'question', 'fact'];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+const parseXml = (content: string): Document => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error("Invalid XML file");
+  return doc;
+};
+
+const childElements = (element: Element, tagName: string) =>
+  Array.from(element.children).filter(c => c.tagName === tagName);
+
+const toCategory = (value: string | null | undefined): NodeCategory | undefined =>
+  value && (CATEGORIES as string[]).includes(value) ? value as NodeCategory : undefined;
+
+const toTimestamp = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric) && numeric > 0) return numeric;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const newNode = (label: string): MindMapNode => ({ id: crypto.randomUUID(), label, children: [] });
+
+// Imported nodes get fresh ids, so relationships read from a file are re-pointed through the
+// file-id → node-id map collected while parsing. Unresolved endpoints are dropped by validation.
+const withImportedCrossLinks = (data: MindMapData, links: Omit<CrossLink, 'id'>[], ids: Map<string, string>): MindMapData => {
+  const crossLinks = links.map(link => ({
+    ...link,
+    id: crypto.randomUUID(),
+    source: ids.get(link.source) || link.source,
+    target: ids.get(link.target) || link.target,
+  }));
+  return crossLinks.length > 0 ? { ...data, crossLinks } : data;
+};
+
+// --- OPML ---
+// Details use the OmniOutliner `_note` convention; category, links and createdAt use custom `_` attributes.
+// Relationships are stored as `_crossLinks` JSON on the top outline, referring to each outline's `_id`.
+
+export const generateOpml = (data: MindMapData): string => {
+  const renderNode = (node: MindMapNode, depth: number): string => {
+    const indent = '  '.repeat(depth + 2);
+    const attrs = [`text="${escapeXml(node.label)}"`];
+    if (data.crossLinks && data.crossLinks.length > 0) {
+      attrs.push(`_id="${escapeXml(node.id)}"`);
+      if (depth === 0) attrs.push(`_crossLinks="${escapeXml(JSON.stringify(data.crossLinks.map(({ id, ...link }) => link)))}"`);
+    }
+    if (node.details) attrs.push(`_note="${escapeXml(node.details)}"`);
+    if (node.category) attrs.push(`_category="${node.category}"`);
+    if (node.createdAt) attrs.push(`_createdAt="${node.createdAt}"`);
+    if (node.links && node.links.length > 0) {
+      attrs.push(`type="link" url="${escapeXml(node.links[0].url)}"`);
+      attrs.push(`_links="${escapeXml(JSON.stringify(node.links))}"`);
+    }
+    const children = node.children || [];
+    if (children.length === 0) return `${indent}<outline ${attrs.join(' ')}/>\n`;
+    return `${indent}<outline ${attrs.join(' ')}>\n${children.map(c => renderNode(c, depth + 1)).join('')}${indent}</outline>\n`;
+  };
+
+  const created = new Date(data.root.createdAt || Date.now()).toUTCString();
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(data.root.label)}</title>
+    <dateCreated>${created}</dateCreated>
+  </head>
+  <body>
+${renderNode(data.root, 0)}  </body>
+</opml>
+`;
+};
+
+export const parseOpml = (content: string): MindMapData => {
+  const doc = parseXml(content);
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) throw new Error("Invalid OPML: missing body");
+
+  const ids = new Map<string, string>();
+  let crossLinks: Omit<CrossLink, 'id'>[] = [];
+
+  const readOutline = (el: Element): MindMapNode => {
+    const node = newNode(el.getAttribute('text') || el.getAttribute('title') || 'Untitled');
+    const fileId = el.getAttribute('_id');
+    if (fileId) ids.set(fileId, node.id);
+    const rawLinks = el.getAttribute('_crossLinks');
+    if (rawLinks) {
+      try {
+        crossLinks = crossLinks.concat(JSON.parse(rawLinks));
+      } catch (e) {
+        console.warn("Ignoring malformed OPML cross-links", e);
+      }
+    }
+    const note = el.getAttribute('_note');
+    if (note) node.details = note;
+    node.category = toCategory(el.getAttribute('_category'));
+    node.createdAt = toTimestamp(el.getAttribute('_createdAt') || el.getAttribute('created'));
+
+    let links: Link[] = [];
+    try {
+      links = JSON.parse(el.getAttribute('_links') || '[]');
+    } catch (e) {
+      links = [];
+    }
+    const url = el.getAttribute('url') || el.getAttribute('htmlUrl') || el.getAttribute('xmlUrl');
+    if (links.length === 0 && url) links = [{ title: node.label, url }];
+    if (links.length > 0) node.links = links;
+
+    node.children = childElements(el, 'outline').map(readOutline);
+    return node;
+  };
+
+  const outlines = childElements(body, 'outline').map(readOutline);
+  if (outlines.length === 0) throw new Error("OPML file has no outlines");
+  if (outlines.length === 1) return withImportedCrossLinks({ root: outlines[0] }, crossLinks, ids);
+
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  const root = newNode(title || 'Imported Outline');
+  root.children = outlines;
+  return withImportedCrossLinks({ root }, crossLinks, ids);
+};
+
+// --- FreeMind (.mm) ---
+// Category is stored both as an attribute and as a built-in icon so FreeMind shows a marker.
+// Relationships are native `<arrowlink>` elements on the source node.
+
+const FREEMIND_ICONS: Record<NodeCategory, string> = {
+  idea: 'idea',
+  task: 'button_ok',
+  question: 'help',
+  fact: 'info',
+};
+
+export const generateFreeMind = (data: MindMapData): string => {
+  const renderNode = (node: MindMapNode, depth: number): string => {
+    const indent = '  '.repeat(depth + 1);
+    const inner = '  '.repeat(depth + 2);
+    const attrs = [`ID="ID_${escapeXml(node.id)}"`, `TEXT="${escapeXml(node.label)}"`];
+    if (node.createdAt) attrs.push(`CREATED="${node.createdAt}"`, `MODIFIED="${node.createdAt}"`);
+    if (node.links && node.links.length > 0) attrs.push(`LINK="${escapeXml(node.links[0].url)}"`);
+    if (node.collapsed) attrs.push('FOLDED="true"');
+
+    let body = '';
+    if (node.category) {
+      body += `${inner}<icon BUILTIN="${FREEMIND_ICONS[node.category]}"/>\n`;
+      body += `${inner}<attribute NAME="category" VALUE="${node.category}"/>\n`;
+    }
+    (node.links || []).forEach(link => {
+      body += `${inner}<attribute NAME="link" VALUE="${escapeXml(JSON.stringify(link))}"/>\n`;
+    });
+    (data.crossLinks || []).filter(l => l.source === node.id).forEach(link => {
+      const attrs = [`DESTINATION="ID_${escapeXml(link.target)}"`, 'ENDARROW="Default"', 'STARTARROW="None"'];
+      if (link.label) attrs.push(`MIDDLE_LABEL="${escapeXml(link.label)}"`);
+      if (link.color) attrs.push(`COLOR="${escapeXml(link.color)}"`);
+      if (link.style) attrs.push(`DASH="${link.style}"`);
+      body += `${inner}<arrowlink ${attrs.join(' ')}/>\n`;
+    });
+    if (node.details) {
+      const paragraphs = node.details.split('\n').map(p => `<p>${escapeXml(p)}</p>`).join('');
+      body += `${inner}<richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>\n`;
+    }
+    (node.children || []).forEach(child => { body += renderNode(child, depth + 1); });
+
+    if (!body) return `${indent}<node ${attrs.join(' ')}/>\n`;
+    return `${indent}<node ${attrs.join(' ')}>\n${body}${indent}</node>\n`;
+  };
+
+  return `<map version="1.0.1">\n${renderNode(data.root, 0)}</map>\n`;
+};
+
+export const parseFreeMind = (content: string): MindMapData => {
+  const doc = parseXml(content);
+  const map = doc.getElementsByTagName('map')[0];
+  const rootElement = map && childElements(map, 'node')[0];
+  if (!rootElement) throw new Error("Invalid FreeMind file: missing root node");
+
+  const iconCategories = Object.fromEntries(Object.entries(FREEMIND_ICONS).map(([k, v]) => [v, k]));
+  const ids = new Map<string, string>();
+  const crossLinks: Omit<CrossLink, 'id'>[] = [];
+
+  const readNode = (el: Element): MindMapNode => {
+    const richText = childElements(el, 'richcontent').find(r => r.getAttribute('TYPE') === 'NODE');
+    const node = newNode(el.getAttribute('TEXT') || richText?.textContent?.trim() || 'Untitled');
+    const fileId = el.getAttribute('ID');
+    if (fileId) ids.set(fileId, node.id);
+    childElements(el, 'arrowlink').forEach(arrow => {
+      const target = arrow.getAttribute('DESTINATION');
+      if (!target) return;
+      const label = arrow.getAttribute('MIDDLE_LABEL');
+      const color = arrow.getAttribute('COLOR');
+      const dash = arrow.getAttribute('DASH');
+      crossLinks.push({
+        source: fileId || node.id,
+        target,
+        ...(label ? { label } : {}),
+        ...(color ? { color } : {}),
+        ...(dash === 'dashed' || dash === 'dotted' || dash === 'solid' ? { style: dash as CrossLinkStyle } : {}),
+      });
+    });
+    node.createdAt = toTimestamp(el.getAttribute('CREATED'));
+    if (el.getAttribute('FOLDED') === 'true') node.collapsed = true;
+
+    const attributes = childElements(el, 'attribute');
+    const categoryAttr = attributes.find(a => a.getAttribute('NAME') === 'category')?.getAttribute('VALUE');
+    const iconAttr = childElements(el, 'icon').map(i => iconCategories[i.getAttribute('BUILTIN') || '']).find(Boolean);
+    node.category = toCategory(categoryAttr) || toCategory(iconAttr);
+
+    const links: Link[] = attributes
+      .filter(a => a.getAttribute('NAME') === 'link')
+      .flatMap(a => {
+        try {
+          return [JSON.parse(a.getAttribute('VALUE') || '')];
+        } catch (e) {
+          return [];
+        }
+      });
+    const href = el.getAttribute('LINK');
+    if (links.length === 0 && href) links.push({ title: node.label, url: href });
+    if (links.length > 0) node.links = links;
+
+    const note = childElements(el, 'richcontent').find(r => r.getAttribute('TYPE') === 'NOTE');
+    if (note) {
+      const paragraphs = Array.from(note.getElementsByTagName('p')).map(p => p.textContent || '');
+      const text = (paragraphs.length > 0 ? paragraphs.join('\n') : note.textContent || '').trim();
+      if (text) node.details = text;
+    }
+
+    node.children = childElements(el, 'node').map(readNode);
+    return node;
+  };
+
+  return withImportedCrossLinks({ root: readNode(rootElement) }, crossLinks, ids);
+};
+
+// --- XMind (.xmind) ---
+// Writes both content.json (XMind 2020+) and content.xml (XMind 8); imports read content.json first.
+// Topic timestamps are kept in both so our own round trip does not depend on the legacy XML. XMind supports one untitled
+// hyperlink per topic, so the full link list is also kept in a "Links:" block at the end of the notes.
+// Cross-links map to sheet-level relationships.
+
+const XMIND_MARKERS: Record<NodeCategory, string> = {
+  idea: 'symbol-idea',
+  task: 'task-start',
+  question: 'symbol-question',
+  fact: 'symbol-info',
+};
+
+const LINKS_MARKER = '\n\n---\nLinks:\n';
+
+const notesWithLinks = (node: MindMapNode): string => {
+  const links = node.links && node.links.length > 0
+    ? LINKS_MARKER + node.links.map(l => `- ${l.title}: ${l.url}`).join('\n')
+    : '';
+  return (node.details || '') + links;
+};
+
+const splitNotes = (notes: string): { details?: string; links: Link[] } => {
+  const index = notes.indexOf(LINKS_MARKER.trim());
+  if (index < 0) return { details: notes.trim() || undefined, links: [] };
+  const links = notes
+    .slice(index + LINKS_MARKER.trim().length)
+    .split('\n')
+    .map(line => line.match(/^-\s+(.*?):\s+(https?:\/\/\S+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({ title: m[1], url: m[2] }));
+  return { details: notes.slice(0, index).replace(/\n*-*\s*$/, '').trim() || undefined, links };
+};
+
+const toXmindTopic = (node: MindMapNode): any => {
+  const notes = notesWithLinks(node);
+  return {
+    id: node.id,
+    class: 'topic',
+    title: node.label,
+    ...(node.createdAt ? { timestamp: node.createdAt } : {}),
+    ...(node.links && node.links.length > 0 ? { href: node.links[0].url } : {}),
+    ...(notes ? { notes: { plain: { content: notes } } } : {}),
+    ...(node.category ? { labels: [node.category], markers: [{ markerId: XMIND_MARKERS[node.category] }] } : {}),
+    ...(node.collapsed ? { branch: 'folded' } : {}),
+    ...(node.children && node.children.length > 0
+      ? { children: { attached: node.children.map(toXmindTopic) } }
+      : {}),
+  };
+};
+
+const toXmindXmlTopic = (node: MindMapNode, depth: number): string => {
+  const indent = '  '.repeat(depth + 2);
+  const attrs = [`id="${escapeXml(node.id)}"`];
+  if (node.createdAt) attrs.push(`timestamp="${node.createdAt}"`);
+  if (node.collapsed) attrs.push('branch="folded"');
+  if (node.links && node.links.length > 0) attrs.push(`xlink:href="${escapeXml(node.links[0].url)}"`);
+
+  let body = `${indent}  <title>${escapeXml(node.label)}</title>\n`;
+  const notes = notesWithLinks(node);
+  if (notes) body += `${indent}  <notes><plain>${escapeXml(notes)}</plain></notes>\n`;
+  if (node.category) {
+    body += `${indent}  <labels><label>${node.category}</label></labels>\n`;
+    body += `${indent}  <marker-refs><marker-ref marker-id="${XMIND_MARKERS[node.category]}"/></marker-refs>\n`;
+  }
+  if (node.children && node.children.length > 0) {
+    body += `${indent}  <children><topics type="attached">\n${node.children.map(c => toXmindXmlTopic(c, depth + 1)).join('')}${indent}  </topics></children>\n`;
+  }
+  return `${indent}<topic ${attrs.join(' ')}>\n${body}${indent}</topic>\n`;
+};
+
+export const generateXMind = (data: MindMapData): Blob => {
+  const sheetId = crypto.randomUUID();
+  const content = [{
+    id: sheetId,
+    class: 'sheet',
+    title: data.root.label,
+    rootTopic: toXmindTopic(data.root),
+    ...(data.crossLinks && data.crossLinks.length > 0
+      ? {
+          relationships: data.crossLinks.map(link => ({
+            id: link.id,
+            end1Id: link.source,
+            end2Id: link.target,
+            ...(link.label ? { title: link.label } : {}),
+          })),
+        }
+      : {}),
+  }];
+
+  const relationshipsXml = data.crossLinks && data.crossLinks.length > 0
+    ? `    <relationships>\n${data.crossLinks.map(link =>
+        `      <relationship id="${escapeXml(link.id)}" end1="${escapeXml(link.source)}" end2="${escapeXml(link.target)}">${link.label ? `<title>${escapeXml(link.label)}</title>` : ''}</relationship>\n`
+      ).join('')}    </relationships>\n`
+    : '';
+
+  const contentXml = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<xmap-content xmlns="urn:xmind:xmap:xmlns:content:2.0" xmlns:xlink="http://www.w3.org/1999/xlink" version="2.0">
+  <sheet id="${sheetId}">
+${toXmindXmlTopic(data.root, 0)}${relationshipsXml}    <title>${escapeXml(data.root.label)}</title>
+  </sheet>
+</xmap-content>
+`;
+
+  const manifestXml = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<manifest xmlns="urn:xmind:xmap:xmlns:manifest:1.0">
+  <file-entry full-path="content.xml" media-type="text/xml"/>
+  <file-entry full-path="META-INF/" media-type=""/>
+  <file-entry full-path="META-INF/manifest.xml" media-type="text/xml"/>
+</manifest>
+`;
+
+  return createZip([
+    { name: 'content.json', content: JSON.stringify(content) },
+    { name: 'metadata.json', content: JSON.stringify({ creator: { name: 'Orion Voice2Map' } }) },
+    { name: 'manifest.json', content: JSON.stringify({ 'file-entries': { 'content.json': {}, 'metadata.json': {} } }) },
+    { name: 'content.xml', content: contentXml },
+    { name: 'META-INF/manifest.xml', content: manifestXml },
+  ]);
+};
+
+const categoryFromMarkers = (labels: string[], markers: string[]): NodeCategory | undefined => {
+  const fromLabel = labels.map(toCategory).find(Boolean);
+  if (fromLabel) return fromLabel;
+  const markerCategories = Object.fromEntries(Object.entries(XMIND_MARKERS).map(([k, v]) => [v, k]));
+  return toCategory(markers.map(m => markerCategories[m]).find(Boolean));
+};
+
+const applyNotes = (node: MindMapNode, notes: string, href: string | null | undefined) => {
+  const { details, links } = splitNotes(notes);
+  if (details) node.details = details;
+  if (links.length > 0) node.links = links;
+  else if (href) node.links = [{ title: node.label, url: href }];
+};
+
+const fromXmindTopic = (topic: any, ids: Map<string, string>): MindMapNode => {
+  const node = newNode(typeof topic.title === 'string' && topic.title ? topic.title : 'Untitled');
+  if (typeof topic.id === 'string') ids.set(topic.id, node.id);
+  node.createdAt = toTimestamp(topic.timestamp === undefined ? undefined : String(topic.timestamp));
+  applyNotes(node, topic.notes?.plain?.content || '', topic.href);
+  node.category = categoryFromMarkers(topic.labels || [], (topic.markers || []).map((m: any) => m.markerId));
+  if (topic.branch === 'folded') node.collapsed = true;
+  node.children = (topic.children?.attached || []).map((child: any) => fromXmindTopic(child, ids));
+  return node;
+};
+
+const fromXmindXmlTopic = (el: Element, ids: Map<string, string>): MindMapNode => {
+  const title = childElements(el, 'title')[0]?.textContent || 'Untitled';
+  const node = newNode(title);
+  const fileId = el.getAttribute('id');
+  if (fileId) ids.set(fileId, node.id);
+  node.createdAt = toTimestamp(el.getAttribute('timestamp'));
+  if (el.getAttribute('branch') === 'folded') node.collapsed = true;
+
+  const plain = childElements(el, 'notes')[0]?.getElementsByTagName('plain')[0]?.textContent || '';
+  applyNotes(node, plain, el.getAttribute('xlink:href'));
+
+  const labels = Array.from(childElements(el, 'labels')[0]?.getElementsByTagName('label') || []).map(l => l.textContent || '');
+  const markers = Array.from(childElements(el, 'marker-refs')[0]?.getElementsByTagName('marker-ref') || []).map(m => m.getAttribute('marker-id') || '');
+  node.category = categoryFromMarkers(labels, markers);
+
+  const attached = Array.from(childElements(el, 'children')[0]?.getElementsByTagName('topics') || [])
+    .find(t => t.getAttribute('type') === 'attached');
+  node.children = attached ? childElements(attached, 'topic').map(child => fromXmindXmlTopic(child, ids)) : [];
+  return node;
+};
+
+// XMind 2020+ files ship a placeholder content.xml, so content.json wins whenever it exists;
+// content.xml is only read from XMind 8 files
+export const parseXMind = async (buffer: ArrayBuffer): Promise<MindMapData> => {
+  const entries = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const find = (name: string) => entries.find(e => e.name === name);
+  const ids = new Map<string, string>();
+
+  const json = find('content.json');
+  if (json) {
+    const sheets = JSON.parse(decoder.decode(json.data));
+    const sheet = Array.isArray(sheets) ? sheets[0] : null;
+    if (sheet?.rootTopic) {
+      const root = fromXmindTopic(sheet.rootTopic, ids);
+      const crossLinks = (Array.isArray(sheet.relationships) ? sheet.relationships : []).map((r: any) => ({
+        source: String(r.end1Id || ''),
+        target: String(r.end2Id || ''),
+        ...(typeof r.title === 'string' && r.title ? { label: r.title } : {}),
+      }));
+      return withImportedCrossLinks({ root }, crossLinks, ids);
+    }
+  }
+
+  const xml = find('content.xml');
+  if (xml) {
+    const doc = parseXml(decoder.decode(xml.data));
+    const sheet = doc.getElementsByTagName('sheet')[0];
+    const rootTopic = sheet && childElements(sheet, 'topic')[0];
+    if (rootTopic) {
+      const root = fromXmindXmlTopic(rootTopic, ids);
+      const relationships = Array.from(childElements(sheet, 'relationships')[0]?.getElementsByTagName('relationship') || []);
+      const crossLinks = relationships.map(r => {
+        const label = childElements(r, 'title')[0]?.textContent?.trim();
+        return { source: r.getAttribute('end1') || '', target: r.getAttribute('end2') || '', ...(label ? { label } : {}) };
+      });
+      return withImportedCrossLinks({ root }, crossLinks, ids);
+    }
+  }
+
+  throw new Error("Invalid XMind file: no sheet found");
+};
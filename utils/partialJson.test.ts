@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete documents as-is and returns null for empty input', () => {
+    expect(parsePartialJson('{"root": {"id": "1", "label": "Plan"}}')).toEqual({ root: { id: '1', label: 'Plan' } });
+    expect(parsePartialJson('  ')).toBeNull();
+  });
+
+  it('closes a string cut off mid-value', () => {
+    expect(parsePartialJson('{"root": {"id": "1", "label": "Bud')).toEqual({ root: { id: '1', label: 'Bud' } });
+  });
+
+  it('drops a key cut off mid-name', () => {
+    expect(parsePartialJson('{"id": "1", "lab')).toEqual({ id: '1' });
+  });
+
+  it('drops a dangling escape', () => {
+    expect(parsePartialJson('{"label": "Line\\')).toEqual({ label: 'Line' });
+    expect(parsePartialJson('{"label": "Say \\"hi\\')).toEqual({ label: 'Say "hi' });
+  });
+
+  it('drops a half-written unicode escape', () => {
+    expect(parsePartialJson('{"label": "caf\\u00')).toEqual({ label: 'caf' });
+    expect(parsePartialJson('{"path": "C:\\\\u00')).toEqual({ path: 'C:\\u00' });
+  });
+
+  it('keeps numbers that are already valid and drops ones that are not', () => {
+    expect(parsePartialJson('{"start": 1, "end": 12')).toEqual({ start: 1, end: 12 });
+    expect(parsePartialJson('{"id": "1", "start": 12.')).toEqual({ id: '1' });
+    expect(parsePartialJson('{"start": -')).toEqual({});
+  });
+
+  it('drops a trailing comma and closes open arrays and objects', () => {
+    expect(parsePartialJson('{"root": {"children": [{"id": "1"},')).toEqual({ root: { children: [{ id: '1' }] } });
+    expect(parsePartialJson('{"ids": [1, 2')).toEqual({ ids: [1, 2] });
+  });
+
+  it('drops a key whose value has not started', () => {
+    expect(parsePartialJson('{"id": "1", "label":')).toEqual({ id: '1' });
+    expect(parsePartialJson('{"a": {"b": [{"c": "d"}], "e": ')).toEqual({ a: { b: [{ c: 'd' }] } });
+  });
+
+  it('drops a half-written literal', () => {
+    expect(parsePartialJson('{"id": "1", "collapsed": tr')).toEqual({ id: '1' });
+  });
+});
@@ -0,0 +1,64 @@
+// --- Partial JSON Parsing (for streamed responses) ---
+
+const MAX_TRIM_ATTEMPTS = 32;
+
+// Closes open strings, objects and arrays so a truncated document becomes parseable
+const closeJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  let result = text;
+  if (inString) {
+    // Drop a dangling or half-written escape so the closing quote is not escaped
+    if (escaped) result = result.slice(0, -1);
+    else result = result.replace(/(^|[^\\])((?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, '$1$2');
+    result += '"';
+  }
+
+  result = result.replace(/[\s,]+$/, '');
+  // A key whose value has not started yet: `, "key":` or `{"key":`
+  result = result.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '');
+
+  return result + stack.reverse().join('');
+};
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed.
+ * Returns the largest parseable prefix, or null when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown | null => {
+  let candidate = text.trim();
+  if (!candidate) return null;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (e) {
+    // Incomplete: fall through to repair
+  }
+
+  for (let attempt = 0; attempt < MAX_TRIM_ATTEMPTS && candidate; attempt++) {
+    try {
+      return JSON.parse(closeJson(candidate));
+    } catch (e) {
+      // Cut back to the previous element boundary and try again
+      const cut = Math.max(candidate.lastIndexOf(','), candidate.lastIndexOf('{', candidate.length - 2), candidate.lastIndexOf('[', candidate.length - 2));
+      if (cut < 0) return null;
+      candidate = candidate.slice(0, candidate[cut] === ',' ? cut : cut + 1);
+    }
+  }
+  return null;
+};
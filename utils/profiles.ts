@@ -0,0 +1,139 @@
+import { NodeCategory } from '../types';
+
+const PROFILES_KEY = 'voicemap_profiles';
+const ACTIVE_PROFILE_KEY = 'voicemap_active_profile';
+
+export interface GenerationProfile {
+  id: string;
+  name: string;
+  emoji: string;
+  // Profile-specific structuring rules added to the base system prompt
+  instructions: string;
+  // Categories the model should prefer for this kind of content
+  defaultCategories: NodeCategory[];
+  // Levels below the root the model is asked to stay within (a prompt hint, not a cut)
+  maxDepth: number;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_PROFILE_ID = 'general';
+
+export const BUILT_IN_PROFILES: GenerationProfile[] = [
+  {
+    id: 'general',
+    name: 'General',
+    emoji: '🗺️',
+    instructions: '',
+    defaultCategories: ['idea', 'task', 'question', 'fact'],
+    maxDepth: 5,
+    builtIn: true,
+  },
+  {
+    id: 'travel',
+    name: 'Travel Planning',
+    emoji: '✈️',
+    instructions: [
+      'Group the plan by day first (e.g. "Day 1", "Day 2"), then by location or city within each day.',
+      'Bookings, tickets and things to buy are tasks; opening hours, prices and addresses go into details as facts.',
+      'Put anything without a specific day under a "General" branch.',
+    ].join('\n'),
+    defaultCategories: ['fact', 'task', 'idea'],
+    maxDepth: 4,
+    builtIn: true,
+  },
+  {
+    id: 'brainstorm',
+    name: 'Brainstorming',
+    emoji: '🧠',
+    instructions: [
+      'Cluster ideas by theme and keep every idea, even half-formed ones.',
+      'Prefer breadth over depth; open questions that need follow-up are questions.',
+    ].join('\n'),
+    defaultCategories: ['idea', 'question'],
+    maxDepth: 3,
+    builtIn: true,
+  },
+  {
+    id: 'meeting',
+    name: 'Meeting Minutes',
+    emoji: '📝',
+    instructions: [
+      'Use top-level branches for "Agenda", "Decisions", "Action Items" and "Open Questions" (omit empty ones).',
+      'Every action item is a task. Put the owner and due date into details as "Owner: <name> · Due: <date>"; write "Owner: unassigned" when nobody was named.',
+      'Decisions are facts; unresolved points are questions.',
+    ].join('\n'),
+    defaultCategories: ['task', 'fact', 'question'],
+    maxDepth: 3,
+    builtIn: true,
+  },
+  {
+    id: 'study',
+    name: 'Study Notes',
+    emoji: '📚',
+    instructions: [
+      'Organize by chapter or topic, then key concepts, then supporting facts and examples.',
+      'Definitions, formulas and dates are facts; things to review or look up are questions.',
+    ].join('\n'),
+    defaultCategories: ['fact', 'idea', 'question'],
+    maxDepth: 5,
+    builtIn: true,
+  },
+];
+
+// --- Custom Profiles (localStorage) ---
+
+export const getCustomProfiles = (): GenerationProfile[] => {
+  try {
+    const json = localStorage.getItem(PROFILES_KEY);
+    const profiles: GenerationProfile[] = json ? JSON.parse(json) : [];
+    return profiles.filter(p => p && p.id && p.name).map(p => ({ ...p, builtIn: false }));
+  } catch (e) {
+    return [];
+  }
+};
+
+export const getAllProfiles = (): GenerationProfile[] => [...BUILT_IN_PROFILES, ...getCustomProfiles()];
+
+export const findProfile = (id: string | null | undefined): GenerationProfile => {
+  return getAllProfiles().find(p => p.id === id) || BUILT_IN_PROFILES[0];
+};
+
+export const saveCustomProfile = (profile: GenerationProfile) => {
+  try {
+    const profiles = getCustomProfiles();
+    const index = profiles.findIndex(p => p.id === profile.id);
+    const stored = { ...profile, builtIn: false };
+    if (index >= 0) profiles[index] = stored;
+    else profiles.push(stored);
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Failed to save profile", e);
+  }
+};
+
+export const deleteCustomProfile = (id: string) => {
+  try {
+    const profiles = getCustomProfiles().filter(p => p.id !== id);
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    if (localStorage.getItem(ACTIVE_PROFILE_KEY) === id) localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  } catch (e) {
+    console.error("Failed to delete profile", e);
+  }
+};
+
+export const getActiveProfileId = (): string => localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+
+export const setActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+// Profile-specific part of the system prompt
+export const buildProfileInstructions = (profile: GenerationProfile): string => {
+  const lines = [
+    `Profile: ${profile.name}.`,
+    `Prefer these categories: ${profile.defaultCategories.map(c => `'${c}'`).join(', ')}.`,
+    `Do not nest deeper than ${profile.maxDepth} levels below the root.`,
+  ];
+  if (profile.instructions.trim()) lines.push(profile.instructions.trim());
+  return lines.join('\n');
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseSrt, parseTranscript, parseVtt } from './transcriptUtils';
+
+describe('parseVtt', () => {
+  it('drops the header, notes, cue identifiers and timings', () => {
+    const vtt = 'WEBVTT\n\nNOTE recorded on site\n\nintro\n00:00:01.000 --> 00:00:03.500 align:start\nWelcome everyone.\n\n00:04.000 --> 00:06.000\n<i>Let us begin.</i>';
+    expect(parseVtt(vtt)).toBe('Welcome everyone. Let us begin.');
+  });
+
+  it('turns voice tags into speaker prefixes and joins consecutive cues of one speaker', () => {
+    const vtt = [
+      'WEBVTT',
+      '00:00:01.000 --> 00:00:02.000\n<v Alice>Morning.',
+      '00:00:02.000 --> 00:00:04.000\n<v Alice>Budget first.',
+      '00:00:04.000 --> 00:00:06.000\n<v.loud Bob>Agreed,\nlet us start.</v>',
+    ].join('\n\n');
+    expect(parseVtt(vtt)).toBe('Alice: Morning. Budget first.\nBob: Agreed, let us start.');
+  });
+
+  it('does not read colons in the cue text as speakers', () => {
+    const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nNote: the time is 10:30\n\n00:00:02.000 --> 00:00:03.000\nRoom: B';
+    expect(parseVtt(vtt)).toBe('Note: the time is 10:30 Room: B');
+  });
+});
+
+describe('parseSrt', () => {
+  it('drops counters and timings and strips formatting', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\n<b>Hello</b> there.\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n{\\an8}Second line.';
+    expect(parseSrt(srt)).toBe('Hello there. Second line.');
+  });
+
+  it('keeps colon-prefixed text as written', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nAgenda: 3 items\n\n2\n00:00:02,000 --> 00:00:03,000\nStart at 9:15';
+    expect(parseSrt(srt)).toBe('Agenda: 3 items Start at 9:15');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('picks the parser from the extension or the WEBVTT header', () => {
+    const vtt = 'WEBVTT\n\n00:01.000 --> 00:02.000\n<v Ana>Hi.';
+    expect(parseTranscript('notes.txt', vtt)).toBe('Ana: Hi.');
+    expect(parseTranscript('call.srt', '1\n00:00:01,000 --> 00:00:02,000\nHi.')).toBe('Hi.');
+    expect(parseTranscript('notes.txt', '  Plain\r\ntext  ')).toBe('Plain\ntext');
+  });
+});
@@ -0,0 +1,93 @@
+// --- Transcript Parsing ---
+
+export const TRANSCRIPT_EXTENSIONS = ['.txt', '.vtt', '.srt'];
+
+const VOICE_TAG = /<v(?:\.[^\s>]+)?\s+([^>]+)>/;
+const CUE_TIMING = /^\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}.*$/;
+
+// A cue line and the speaker its voice tag names, if any
+type Cue = { speaker: string | null; text: string };
+
+// Join cue lines into readable paragraphs, collapsing consecutive lines of the same speaker
+const joinCues = (cues: Cue[]): string => {
+  const paragraphs: string[] = [];
+  let lastSpeaker: string | null = null;
+
+  cues.forEach(({ speaker, text }) => {
+    if (speaker && speaker === lastSpeaker && paragraphs.length > 0) {
+      paragraphs[paragraphs.length - 1] += ` ${text}`;
+    } else if (!speaker && paragraphs.length > 0 && lastSpeaker === null) {
+      paragraphs[paragraphs.length - 1] += ` ${text}`;
+    } else {
+      paragraphs.push(speaker ? `${speaker}: ${text}` : text);
+    }
+    lastSpeaker = speaker;
+  });
+
+  return paragraphs.join('\n');
+};
+
+/**
+ * WebVTT: drops the header, NOTE/STYLE blocks, cue identifiers and timings.
+ * Voice tags (`<v Alice>`) are turned into "Alice:" prefixes. Colons in the
+ * cue text itself are never read as speakers.
+ */
+export const parseVtt = (content: string): string => {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(l => l.trim() !== '');
+    if (lines.length === 0) return;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const timingIndex = lines.findIndex(l => CUE_TIMING.test(l));
+    const textLines = timingIndex >= 0 ? lines.slice(timingIndex + 1) : lines;
+
+    // A voice span runs to the end of the cue unless another one starts
+    let speaker: string | null = null;
+    textLines.forEach(line => {
+      const voice = line.match(VOICE_TAG);
+      if (voice) speaker = voice[1].trim();
+      const text = line.replace(/<[^>]+>/g, '').trim();
+      if (text) cues.push({ speaker, text });
+    });
+  });
+
+  return joinCues(cues);
+};
+
+/**
+ * SubRip: drops numeric counters and timings, strips basic formatting tags.
+ * SubRip has no speaker markup, so "Name:" prefixes are kept as plain text.
+ */
+export const parseSrt = (content: string): string => {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(l => l.trim() !== '');
+    const timingIndex = lines.findIndex(l => CUE_TIMING.test(l));
+    const textLines = timingIndex >= 0 ? lines.slice(timingIndex + 1) : lines.filter(l => !/^\d+$/.test(l.trim()));
+
+    textLines.forEach(line => {
+      const text = line.replace(/<[^>]+>|\{\\[^}]+\}/g, '').trim();
+      if (text) cues.push({ speaker: null, text });
+    });
+  });
+
+  return joinCues(cues);
+};
+
+// Convert an uploaded transcript to plain text based on its extension (or content sniffing)
+export const parseTranscript = (filename: string, content: string): string => {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.vtt') || content.trimStart().startsWith('WEBVTT')) return parseVtt(content);
+  if (lower.endsWith('.srt')) return parseSrt(content);
+  return content.replace(/\r\n?/g, '\n').trim();
+};
+
+export const readTranscriptFile = async (file: File): Promise<string> => {
+  const content = await file.text();
+  return parseTranscript(file.name, content);
+};
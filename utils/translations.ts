@@ -8,6 +8,15 @@ export const translations = {
     recording: "Listening...",
     processing: "Structuring...",
     stop: "Stop",
+    cancel: "Cancel",
+    input_voice: "Voice",
+    input_text: "Text / Transcript",
+    text_placeholder: "Paste meeting notes or a transcript here...",
+    upload_transcript: "Upload .txt / .vtt / .srt",
+    generate_map: "Generate Map",
+    upload_audio: "or upload an audio file",
+    segment_progress: "Long recording: {done}/{total} segments structured",
+    transcript_read_error: "Could not read this file. Please upload a plain text, VTT or SRT transcript.",
     
     // Landing
     lang_select: "Language / 语言",
@@ -23,10 +32,65 @@ export const translations = {
     case_2: "🧠 Brainstorming",
     case_3: "📝 Meeting Minutes",
     case_4: "📚 Study Notes",
+    profile_general: "🗺️ General",
+    profile_custom: "Custom Profile",
+    profiles_title: "Generation Profiles",
+    profiles_desc: "Custom structuring rules, stored in this browser.",
+    profile_name: "Profile name",
+    profile_instructions: "How should the map be structured? e.g. \"Group by customer, list follow-ups as tasks\"",
+    profile_categories: "Preferred categories",
+    profile_depth: "Maximum depth",
+    profile_delete_confirm: "Delete this profile?",
 
     // Actions
     new_map: "New Map",
     history: "My Maps",
+    history_empty: "No maps saved yet.\nGenerate a map to get started.",
+    history_delete: "Delete Map",
+    history_delete_confirm: "Are you sure you want to delete this map?",
+    history_delete_failed: "Could not delete the map from the local library.",
+    history_load_failed: "Could not open the local map library.",
+    storage_maps: "{count} maps · {revisions} versions",
+    storage_quota: "{used} of {quota} browser storage used",
+    storage_local: "Maps are stored locally in your browser.",
+    storage_persisted: "Maps are stored locally and protected from automatic cleanup.",
+    storage_full: "Browser storage is full, so this map was not saved. Delete or export some maps in My Maps and try again.",
+    save_failed: "Could not save the map to the local library.",
+    revisions_title: "Version History",
+    revisions_single: "Only one version so far. Versions are added on generation, enrichment and save.",
+    revisions_not_saved: "This map has not been saved yet.",
+    revision_generation: "Generated",
+    revision_enrichment: "Enriched",
+    revision_save: "Saved",
+    revision_import: "Imported",
+    revision_restore: "Restored",
+    revision_restore_action: "Restore this version",
+    revision_latest: "Latest",
+    revision_nodes: "{count} nodes",
+    diff_compare_with: "Compare with",
+    diff_moved: "moved",
+    library_search: "Search maps, nodes and notes…",
+    library_folder: "Folder",
+    library_all_folders: "All folders",
+    library_unfiled: "Unfiled",
+    library_tags: "Tags",
+    library_all_tags: "All tags",
+    library_tags_placeholder: "Tags, separated by commas",
+    library_sort: "Sort",
+    library_sort_recent: "Recent",
+    library_sort_name: "Name",
+    library_sort_size: "Size",
+    library_count: "{shown} of {total} maps",
+    library_select_all: "Select all shown",
+    library_selected: "{count} selected",
+    library_export: "Export",
+    library_delete: "Delete",
+    library_bulk_delete_confirm: "Delete {count} maps and their version history?",
+    library_bulk_delete_failed: "Could not delete the selected maps. Nothing was deleted.",
+    library_no_results: "No maps match these filters.",
+    library_pin: "Pin to top",
+    library_unpin: "Unpin",
+    library_edit_meta: "Folder & tags",
     export: "Export",
     share: "Share",
     save: "Save",
@@ -35,12 +99,33 @@ export const translations = {
     export_md: "Export to Notion (MD)",
     export_json: "Export JSON",
     export_code: "Export Mermaid Code",
+    export_svg: "Export Vector (SVG)",
+    export_pdf: "Print / PDF (single page)",
+    export_pdf_pages: "Print / PDF (A4 pages)",
+    export_opml: "Export Outline (OPML)",
+    export_freemind: "Export FreeMind (.mm)",
+    export_xmind: "Export XMind (.xmind)",
+    import_map: "Import a map (JSON / Markdown / Mermaid / OPML / FreeMind / XMind)",
+    import_failed: "Import failed",
+    import_repaired: "The imported map had problems that were repaired:",
+    append_mode: "Continue",
+    replace_mode: "Replace",
+    append_mode_desc: "New recordings are added to the current map",
+    replace_mode_desc: "New recordings replace the current map",
     
     // Node
     edit_label: "Edit Label",
     edit_details: "Edit Details",
     delete: "Delete",
     add_child: "Add Child",
+    delete_branch: "Delete branch",
+    delete_promote: "Delete, keep children",
+    delete_branch_confirm: "Delete this node and all of its children?",
+    move_up: "Move up",
+    move_down: "Move down",
+    cut_branch: "Cut branch (Ctrl+X)",
+    copy_branch: "Copy branch (Ctrl+C)",
+    paste_branch: "Paste as child (Ctrl+V)",
     search_google: "Search Google",
     search_maps: "Find on Maps",
     
@@ -52,6 +137,47 @@ export const translations = {
     layout_lr: "Horizontal",
     layout_tb: "Vertical",
     layout_radial: "Radial",
+    layout_mindmap: "Mind Map (two-sided)",
+    layout_orgchart: "Org Chart (compact)",
+    relayout: "Re-layout (reset dragged nodes)",
+    expand_level: "Levels",
+    expand_all: "All",
+    collapse_branch: "Collapse branch",
+    play_audio: "Play what was said here",
+    stop_audio: "Stop playback",
+    audio_unavailable: "The recording for this node is no longer in My Maps.",
+    recording_save_failed: "The map was created, but its recording could not be kept for playback.",
+    expand_branch: "Expand {count} children",
+    outline_title: "Outline",
+    outline_hint: "Tab / Shift+Tab indent · Enter new item · Alt+↑↓ reorder",
+    transcript_title: "Transcript",
+    transcript_hint: "Hover a sentence or node to see what it is linked to",
+    transcript_unsourced: "{count} nodes are not linked to anything said",
+    transcript_next_unsourced: "Show next",
+    transcript_all_sourced: "Every node is linked to the transcript",
+    outline_details: "Details...",
+    relationship: "Relationship",
+    relationship_label: "Label...",
+    relationship_dashed: "Dashed",
+    relationship_dotted: "Dotted",
+    relationship_solid: "Solid",
+    relationship_delete: "Delete relationship",
+    relationship_hint: "Drag from a node's right handle to another node's left handle to add a relationship",
+    shortcuts_title: "Keyboard Shortcuts",
+    shortcuts_hint: "Select a node first (click it, or press an arrow key to start at the root).",
+    shortcut_add_child: "Add child",
+    shortcut_add_sibling: "Add sibling",
+    shortcut_navigate: "Move selection",
+    shortcut_rename: "Rename",
+    shortcut_delete: "Delete branch",
+    shortcut_delete_promote: "Delete, keep children",
+    shortcut_reorder: "Move among siblings",
+    shortcut_indent: "Outdent / indent",
+    shortcut_toggle: "Collapse / expand",
+    shortcut_clipboard: "Cut / copy / paste branch",
+    shortcut_help: "Show this sheet",
+    undo: "Undo",
+    redo: "Redo",
 
     // Auth
     login: "Log In",
@@ -80,6 +206,15 @@ export const translations = {
     recording: "正在聆听...",
     processing: "正在整理...",
     stop: "停止",
+    cancel: "取消",
+    input_voice: "语音",
+    input_text: "文本 / 字幕",
+    text_placeholder: "在此粘贴会议记录或转写文本...",
+    upload_transcript: "上传 .txt / .vtt / .srt",
+    generate_map: "生成导图",
+    upload_audio: "或上传音频文件",
+    segment_progress: "长录音：已整理 {done}/{total} 段",
+    transcript_read_error: "无法读取该文件，请上传纯文本、VTT 或 SRT 字幕文件。",
 
     // Landing
     lang_select: "语言 / Language",
@@ -95,10 +230,65 @@ export const translations = {
     case_2: "🧠 头脑风暴",
     case_3: "📝 会议记录",
     case_4: "📚 读书笔记",
+    profile_general: "🗺️ 通用",
+    profile_custom: "自定义模板",
+    profiles_title: "生成模板",
+    profiles_desc: "自定义整理规则，保存在本浏览器中。",
+    profile_name: "模板名称",
+    profile_instructions: "希望如何整理导图？例如“按客户分组，后续跟进列为任务”",
+    profile_categories: "优先使用的分类",
+    profile_depth: "最大层级",
+    profile_delete_confirm: "确定删除此模板？",
 
     // Actions
     new_map: "新建导图",
     history: "我的导图",
+    history_empty: "还没有保存的导图。\n生成一张导图即可开始。",
+    history_delete: "删除导图",
+    history_delete_confirm: "确定要删除这张导图吗？",
+    history_delete_failed: "无法从本地导图库中删除该导图。",
+    history_load_failed: "无法打开本地导图库。",
+    storage_maps: "{count} 张导图 · {revisions} 个版本",
+    storage_quota: "已使用浏览器存储 {used} / {quota}",
+    storage_local: "导图保存在本地浏览器中。",
+    storage_persisted: "导图保存在本地，且不会被浏览器自动清理。",
+    storage_full: "浏览器存储空间已满，此导图未保存。请在“我的导图”中删除或导出部分导图后重试。",
+    save_failed: "无法将导图保存到本地导图库。",
+    revisions_title: "版本历史",
+    revisions_single: "目前只有一个版本。生成、补充信息和保存时会自动添加版本。",
+    revisions_not_saved: "此导图尚未保存。",
+    revision_generation: "生成",
+    revision_enrichment: "补充",
+    revision_save: "保存",
+    revision_import: "导入",
+    revision_restore: "已恢复",
+    revision_restore_action: "恢复此版本",
+    revision_latest: "最新",
+    revision_nodes: "{count} 个节点",
+    diff_compare_with: "对比版本",
+    diff_moved: "已移动",
+    library_search: "搜索导图、节点和备注…",
+    library_folder: "文件夹",
+    library_all_folders: "全部文件夹",
+    library_unfiled: "未归档",
+    library_tags: "标签",
+    library_all_tags: "全部标签",
+    library_tags_placeholder: "标签，用逗号分隔",
+    library_sort: "排序",
+    library_sort_recent: "最近",
+    library_sort_name: "名称",
+    library_sort_size: "大小",
+    library_count: "显示 {shown} / {total} 个导图",
+    library_select_all: "全选当前结果",
+    library_selected: "已选 {count} 个",
+    library_export: "导出",
+    library_delete: "删除",
+    library_bulk_delete_confirm: "删除这 {count} 个导图及其版本历史？",
+    library_bulk_delete_failed: "无法删除所选导图，未删除任何内容。",
+    library_no_results: "没有符合筛选条件的导图。",
+    library_pin: "置顶",
+    library_unpin: "取消置顶",
+    library_edit_meta: "文件夹和标签",
     export: "导出",
     share: "分享链接",
     save: "保存",
@@ -107,12 +297,33 @@ export const translations = {
     export_md: "导出文档 (Markdown)",
     export_json: "导出数据 (JSON)",
     export_code: "导出代码 (Mermaid)",
+    export_svg: "导出矢量图 (SVG)",
+    export_pdf: "打印 / PDF (单页)",
+    export_pdf_pages: "打印 / PDF (A4 分页)",
+    export_opml: "导出大纲 (OPML)",
+    export_freemind: "导出 FreeMind (.mm)",
+    export_xmind: "导出 XMind (.xmind)",
+    import_map: "导入导图 (JSON / Markdown / Mermaid / OPML / FreeMind / XMind)",
+    import_failed: "导入失败",
+    import_repaired: "导入的导图存在以下问题，已自动修复：",
+    append_mode: "继续补充",
+    replace_mode: "重新生成",
+    append_mode_desc: "新的录音将追加到当前导图",
+    replace_mode_desc: "新的录音将替换当前导图",
 
     // Node
     edit_label: "修改标题",
     edit_details: "修改详情",
     delete: "删除节点",
     add_child: "添加子节点",
+    delete_branch: "删除分支",
+    delete_promote: "删除节点，保留子节点",
+    delete_branch_confirm: "删除此节点及其所有子节点？",
+    move_up: "上移",
+    move_down: "下移",
+    cut_branch: "剪切分支 (Ctrl+X)",
+    copy_branch: "复制分支 (Ctrl+C)",
+    paste_branch: "粘贴为子节点 (Ctrl+V)",
     search_google: "谷歌搜索",
     search_maps: "地图查找",
 
@@ -124,6 +335,47 @@ export const translations = {
     layout_lr: "水平视图",
     layout_tb: "垂直视图",
     layout_radial: "发散视图",
+    layout_mindmap: "思维导图（双侧）",
+    layout_orgchart: "组织结构图（紧凑）",
+    relayout: "重新布局（重置拖动过的节点）",
+    expand_level: "展开层级",
+    expand_all: "全部",
+    collapse_branch: "折叠分支",
+    play_audio: "播放此处的原始录音",
+    stop_audio: "停止播放",
+    audio_unavailable: "此节点的录音已不在我的导图中。",
+    recording_save_failed: "导图已生成，但录音未能保存，无法回放。",
+    expand_branch: "展开 {count} 个子节点",
+    outline_title: "大纲视图",
+    outline_hint: "Tab / Shift+Tab 缩进 · Enter 新建 · Alt+↑↓ 排序",
+    transcript_title: "转录文本",
+    transcript_hint: "悬停句子或节点以查看对应关系",
+    transcript_unsourced: "{count} 个节点没有对应的原话",
+    transcript_next_unsourced: "查看下一个",
+    transcript_all_sourced: "所有节点都已关联到转录文本",
+    outline_details: "详细说明...",
+    relationship: "关联",
+    relationship_label: "标签...",
+    relationship_dashed: "虚线",
+    relationship_dotted: "点线",
+    relationship_solid: "实线",
+    relationship_delete: "删除关联",
+    relationship_hint: "从节点右侧的连接点拖到另一个节点左侧的连接点即可建立关联",
+    shortcuts_title: "键盘快捷键",
+    shortcuts_hint: "请先选中节点（点击节点，或按方向键从根节点开始）。",
+    shortcut_add_child: "添加子节点",
+    shortcut_add_sibling: "添加同级节点",
+    shortcut_navigate: "移动选中",
+    shortcut_rename: "重命名",
+    shortcut_delete: "删除分支",
+    shortcut_delete_promote: "删除节点，保留子节点",
+    shortcut_reorder: "同级内移动",
+    shortcut_indent: "升级 / 降级",
+    shortcut_toggle: "折叠 / 展开",
+    shortcut_clipboard: "剪切 / 复制 / 粘贴分支",
+    shortcut_help: "显示此列表",
+    undo: "撤销",
+    redo: "重做",
 
     // Auth
     login: "登录",
@@ -0,0 +1,302 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectSubtreeIds, deleteAndPromote, deleteSubtree, expandToLevel, findNode, findParent, indentNode, insertSubtree,
+  hasCollapsed, mergeMindMapUpdate, mergeSegmentMaps, moveNode, outdentNode, reorderSibling, toggleCollapsed,
+} from './treeUtils';
+import { MindMapData, MindMapNode } from '../types';
+
+const baseMap = (): MindMapData => ({
+  root: {
+    id: 'root',
+    label: 'Project',
+    children: [
+      { id: '1', label: 'Budget', children: [{ id: '2', label: 'Finance sign-off' }] },
+      { id: '3', label: 'Launch' },
+    ],
+  },
+});
+
+const parentOf = (data: MindMapData, id: string) => findParent(data.root, id)?.parent.id;
+
+describe('mergeMindMapUpdate', () => {
+  it('attaches additions to their parent and keeps existing IDs', () => {
+    const merged = mergeMindMapUpdate(baseMap(), {
+      additions: [{ parentId: '3', node: { id: 'n1', label: 'Beta', children: [{ id: 'n2', label: 'Invite testers' }] } }],
+      moves: [],
+    });
+    expect(parentOf(merged, 'n1')).toBe('3');
+    expect(parentOf(merged, 'n2')).toBe('n1');
+    expect(findNode(merged.root, '2')?.label).toBe('Finance sign-off');
+  });
+
+  it('attaches additions with an unknown parent to the root', () => {
+    const merged = mergeMindMapUpdate(baseMap(), { additions: [{ parentId: 'missing', node: { id: 'n1', label: 'Risks' } }], moves: [] });
+    expect(parentOf(merged, 'n1')).toBe('root');
+  });
+
+  it('does not modify the original map', () => {
+    const data = baseMap();
+    mergeMindMapUpdate(data, { additions: [{ parentId: '1', node: { id: 'n1', label: 'Costs' } }], moves: [{ id: '3', newParentId: '1' }] });
+    expect(data).toEqual(baseMap());
+  });
+
+  it('resolves later references to a regenerated ID to the added node', () => {
+    const merged = mergeMindMapUpdate(baseMap(), {
+      additions: [
+        { parentId: 'root', node: { id: '1', label: 'Hiring' } },
+        { parentId: '1', node: { id: 'n5', label: 'Post the job ad' } },
+      ],
+      moves: [{ id: '3', newParentId: '1' }],
+      crossLinks: [{ id: '', source: '1', target: '2' }],
+    });
+
+    const hiring = merged.root.children!.find(c => c.label === 'Hiring')!;
+    expect(hiring.id).not.toBe('1');
+    expect(findNode(merged.root, '1')?.label).toBe('Budget');
+    expect(parentOf(merged, 'n5')).toBe(hiring.id);
+    expect(parentOf(merged, '3')).toBe(hiring.id);
+    expect(merged.crossLinks).toEqual([expect.objectContaining({ source: hiring.id, target: '2' })]);
+  });
+
+  it('keeps references made before a clashing addition on the existing node', () => {
+    const merged = mergeMindMapUpdate(baseMap(), {
+      additions: [
+        { parentId: '1', node: { id: 'n5', label: 'Quotes' } },
+        { parentId: 'root', node: { id: '1', label: 'Hiring' } },
+      ],
+      moves: [],
+    });
+    expect(parentOf(merged, 'n5')).toBe('1');
+  });
+
+  it('rejects moves of the root and moves into a node\'s own subtree', () => {
+    const merged = mergeMindMapUpdate(baseMap(), {
+      additions: [],
+      moves: [{ id: 'root', newParentId: '3' }, { id: '1', newParentId: '2' }],
+    });
+    expect(merged.root).toEqual(baseMap().root);
+  });
+
+  it('skips cross-links with missing endpoints and duplicate pairs', () => {
+    const merged = mergeMindMapUpdate({ ...baseMap(), crossLinks: [{ id: 'l1', source: '2', target: '3' }] }, {
+      additions: [],
+      moves: [],
+      crossLinks: [
+        { id: '', source: '3', target: '2' },
+        { id: '', source: '1', target: 'missing' },
+        { id: '', source: '1', target: '3' },
+      ],
+    });
+    expect(merged.crossLinks!.map(l => [l.source, l.target])).toEqual([['2', '3'], ['1', '3']]);
+  });
+
+  it('appends the update transcript to the existing one', () => {
+    const merged = mergeMindMapUpdate({ ...baseMap(), transcript: [{ id: 'a-s1', text: 'First.' }] }, {
+      additions: [],
+      moves: [],
+      transcript: [{ id: 'b-s1', text: 'Second.' }],
+    });
+    expect(merged.transcript!.map(s => s.id)).toEqual(['a-s1', 'b-s1']);
+  });
+});
+
+describe('mergeSegmentMaps', () => {
+  // Models number nodes from scratch in every segment
+  const first: MindMapData = {
+    root: { id: '1', label: 'Weekly sync', sentenceIds: ['a-s1'], audio: { start: 0, end: 5, recordingId: 'rec' }, children: [
+      { id: '2', label: 'Budget', children: [{ id: '3', label: 'Finance sign-off' }] },
+      { id: '4', label: 'Hiring' },
+    ] },
+    crossLinks: [{ id: 'l1', source: '3', target: '4' }],
+    transcript: [{ id: 'a-s1', text: 'Welcome.' }],
+  };
+  const second: MindMapData = {
+    root: { id: '1', label: 'Weekly sync (cont.)', details: 'Second half', sentenceIds: ['b-s1'], audio: { start: 60, end: 65, recordingId: 'rec' }, children: [
+      { id: '2', label: 'Launch', children: [{ id: '3', label: 'Press kit' }] },
+      { id: 'n4', label: 'budget ', sentenceIds: ['b-s2'], children: [{ id: 'n5', label: 'Vendor quotes' }] },
+    ] },
+    crossLinks: [
+      { id: 'l2', source: '3', target: 'n4' },
+      { id: 'l3', source: 'n5', target: '2' },
+    ],
+    transcript: [{ id: 'b-s1', text: 'Next topic.' }, { id: 'b-s2', text: 'Budget again.' }],
+  };
+
+  const labelOf = (data: MindMapData, id: string) => findNode(data.root, id)?.label;
+
+  it('keeps the first segment as-is when there is only one', () => {
+    expect(mergeSegmentMaps([first])).toEqual(first);
+  });
+
+  it('merges same-label branches and appends the rest with unique IDs', () => {
+    const merged = mergeSegmentMaps([first, second]);
+    expect(merged.root.children!.map(c => c.label)).toEqual(['Budget', 'Hiring', 'Launch']);
+    expect(findNode(merged.root, '2')!.children!.map(c => c.label)).toEqual(['Finance sign-off', 'Vendor quotes']);
+    const ids = collectSubtreeIds(merged.root);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('re-points each segment\'s cross-links at the nodes its IDs became', () => {
+    const merged = mergeSegmentMaps([first, second]);
+    const links = merged.crossLinks!.map(l => [labelOf(merged, l.source), labelOf(merged, l.target)]);
+    expect(links).toEqual([
+      ['Finance sign-off', 'Hiring'],
+      ['Press kit', 'Budget'],
+      ['Vendor quotes', 'Launch'],
+    ]);
+  });
+
+  it('folds later roots and merged branches into the nodes that replace them', () => {
+    const merged = mergeSegmentMaps([first, second]);
+    expect(merged.root).toMatchObject({
+      label: 'Weekly sync',
+      details: 'Second half',
+      sentenceIds: ['a-s1', 'b-s1'],
+      audio: { start: 0, end: 65, recordingId: 'rec' },
+    });
+    expect(findNode(merged.root, '2')!.sentenceIds).toEqual(['b-s2']);
+    expect(merged.transcript!.map(s => s.id)).toEqual(['a-s1', 'b-s1', 'b-s2']);
+  });
+
+  it('does not modify the segment maps', () => {
+    const snapshot = JSON.parse(JSON.stringify([first, second]));
+    mergeSegmentMaps([first, second]);
+    expect([first, second]).toEqual(snapshot);
+  });
+});
+
+describe('structural edits', () => {
+  // root ─ 1 ─ 2
+  //      │   └ 4 ─ 5
+  //      ├ 3
+  //      └ 6
+  const tree = (): MindMapData => ({
+    root: {
+      id: 'root',
+      label: 'Project',
+      children: [
+        { id: '1', label: 'Budget', children: [{ id: '2', label: 'Finance sign-off' }, { id: '4', label: 'Quotes', children: [{ id: '5', label: 'ACME' }] }] },
+        { id: '3', label: 'Launch' },
+        { id: '6', label: 'Hiring' },
+      ],
+    },
+    crossLinks: [{ id: 'l1', source: '5', target: '3' }, { id: 'l2', source: '3', target: '6' }],
+  });
+
+  const childIds = (data: MindMapData, id: string) => (findNode(data.root, id)!.children || []).map(c => c.id);
+
+  it('refuses to delete the root', () => {
+    const data = tree();
+    expect(deleteSubtree(data, 'root')).toBe(data);
+    expect(deleteAndPromote(data, 'root')).toBe(data);
+  });
+
+  it('deletes a whole branch and the cross-links into it', () => {
+    const data = deleteSubtree(tree(), '1');
+    expect(childIds(data, 'root')).toEqual(['3', '6']);
+    expect(findNode(data.root, '5')).toBeNull();
+    expect(data.crossLinks!.map(l => l.id)).toEqual(['l2']);
+  });
+
+  it('promotes children into the deleted node\'s place, in order', () => {
+    const data = deleteAndPromote(tree(), '1');
+    expect(childIds(data, 'root')).toEqual(['2', '4', '3', '6']);
+    expect(childIds(data, '4')).toEqual(['5']);
+    expect(data.crossLinks).toHaveLength(2);
+  });
+
+  it('rejects moving a node into itself or its own descendants, and moving the root', () => {
+    const data = tree();
+    expect(moveNode(data, '1', '1')).toBe(data);
+    expect(moveNode(data, '1', '4')).toBe(data);
+    expect(moveNode(data, '1', '5')).toBe(data);
+    expect(moveNode(data, 'root', '3')).toBe(data);
+    expect(moveNode(data, '1', 'missing')).toBe(data);
+  });
+
+  it('moves a branch to a clamped index under its new parent', () => {
+    const moved = moveNode(tree(), '4', '3', 5);
+    expect(childIds(moved, '1')).toEqual(['2']);
+    expect(childIds(moved, '3')).toEqual(['4']);
+    expect(childIds(moveNode(tree(), '6', 'root', 0), 'root')).toEqual(['6', '1', '3']);
+  });
+
+  it('reorders siblings and stops at both ends of the list', () => {
+    const data = tree();
+    expect(childIds(reorderSibling(data, '1', 1), 'root')).toEqual(['3', '1', '6']);
+    expect(childIds(reorderSibling(data, '6', -1), 'root')).toEqual(['1', '6', '3']);
+    expect(childIds(reorderSibling(data, '6', -2), 'root')).toEqual(['6', '1', '3']);
+    expect(reorderSibling(data, '1', -1)).toBe(data);
+    expect(reorderSibling(data, '6', 1)).toBe(data);
+    expect(reorderSibling(data, 'root', 1)).toBe(data);
+  });
+
+  it('inserts a copy of a branch at the given index', () => {
+    const branch: MindMapNode = { id: 'n1', label: 'Risks', children: [{ id: 'n2', label: 'Delays' }] };
+    const data = insertSubtree(tree(), '1', branch, 1);
+    expect(childIds(data, '1')).toEqual(['2', 'n1', '4']);
+    expect(findNode(data.root, 'n1')).not.toBe(branch);
+    expect(insertSubtree(tree(), 'missing', branch).root).toEqual(tree().root);
+  });
+
+  it('does not modify the original map', () => {
+    const data = tree();
+    deleteSubtree(data, '4');
+    deleteAndPromote(data, '1');
+    moveNode(data, '3', '5');
+    insertSubtree(data, '6', { id: 'n1', label: 'New' });
+    expect(data).toEqual(tree());
+  });
+
+  describe('folding', () => {
+    it('toggles only nodes with children', () => {
+      const folded = toggleCollapsed(tree(), '1');
+      expect(findNode(folded.root, '1')!.collapsed).toBe(true);
+      expect(findNode(toggleCollapsed(folded, '1').root, '1')!.collapsed).toBe(false);
+      const data = tree();
+      expect(toggleCollapsed(data, '3')).toBe(data);
+    });
+
+    it('folds every branch at or below the given level and unfolds the rest', () => {
+      const folded = expandToLevel(toggleCollapsed(tree(), '1'), 1);
+      expect(findNode(folded.root, 'root')!.collapsed).toBeUndefined();
+      expect(findNode(folded.root, '1')!.collapsed).toBe(true);
+      expect(findNode(folded.root, '3')!.collapsed).toBeUndefined();
+
+      const all = expandToLevel(folded, Infinity);
+      expect(collectSubtreeIds(all.root).every(id => !findNode(all.root, id)!.collapsed)).toBe(true);
+    });
+
+    it('reports whether any branch is folded', () => {
+      expect(hasCollapsed(tree().root)).toBe(false);
+      expect(hasCollapsed(toggleCollapsed(tree(), '4').root)).toBe(true);
+      expect(hasCollapsed(expandToLevel(tree(), Infinity).root)).toBe(false);
+    });
+
+    it('unfolds the parent a node is moved or inserted into', () => {
+      const folded = expandToLevel(tree(), 0);
+      expect(findNode(moveNode(folded, '3', '1').root, '1')!.collapsed).toBeUndefined();
+      expect(findNode(insertSubtree(folded, '4', { id: 'n1', label: 'New' }).root, '4')!.collapsed).toBeUndefined();
+    });
+  });
+
+  describe('outline moves', () => {
+    it('indents a node under its previous sibling, but not the first child', () => {
+      const data = tree();
+      expect(indentNode(data, '1')).toBe(data);
+      expect(indentNode(data, '2')).toBe(data);
+      const indented = indentNode(data, '3');
+      expect(childIds(indented, 'root')).toEqual(['1', '6']);
+      expect(childIds(indented, '1')).toEqual(['2', '4', '3']);
+    });
+
+    it('outdents a node to just after its parent, but not a child of the root', () => {
+      const data = tree();
+      expect(outdentNode(data, '1')).toBe(data);
+      expect(outdentNode(data, 'root')).toBe(data);
+      const outdented = outdentNode(data, '2');
+      expect(childIds(outdented, 'root')).toEqual(['1', '2', '3', '6']);
+      expect(childIds(outdented, '1')).toEqual(['4']);
+    });
+  });
+});
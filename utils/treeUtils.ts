@@ -0,0 +1,388 @@
+import { CrossLink, MindMapData, MindMapNode, MindMapUpdate } from '../types';
+
+// --- Tree Helpers ---
+
+export const cloneTree = (node: MindMapNode): MindMapNode => ({
+  ...node,
+  children: node.children?.map(cloneTree),
+});
+
+const indexTree = (node: MindMapNode, index: Map<string, MindMapNode>, parents: Map<string, string>, parentId: string | null = null) => {
+  index.set(node.id, node);
+  if (parentId) parents.set(node.id, parentId);
+  node.children?.forEach(child => indexTree(child, index, parents, node.id));
+};
+
+const isDescendant = (ancestorId: string, nodeId: string, parents: Map<string, string>) => {
+  let current = parents.get(nodeId);
+  while (current) {
+    if (current === ancestorId) return true;
+    current = parents.get(current);
+  }
+  return false;
+};
+
+// Strip visual-only fields before sending the tree to the model
+export const toPromptTree = (node: MindMapNode): any => ({
+  id: node.id,
+  label: node.label,
+  ...(node.details ? { details: node.details } : {}),
+  ...(node.category ? { category: node.category } : {}),
+  ...(node.children && node.children.length > 0 ? { children: node.children.map(toPromptTree) } : {}),
+});
+
+// Appends proposed cross-links whose endpoints exist, skipping pairs that are already linked
+const withCrossLinks = (existing: CrossLink[] | undefined, proposed: CrossLink[] | undefined, nodeIds: Set<string>): CrossLink[] | undefined => {
+  if (!proposed || proposed.length === 0) return existing;
+  const links = [...(existing || [])];
+  const pairs = new Set(links.map(l => [l.source, l.target].sort().join('|')));
+  proposed.forEach(link => {
+    if (!link) return;
+    const pair = [link.source, link.target].sort().join('|');
+    if (link.source === link.target || !nodeIds.has(link.source) || !nodeIds.has(link.target) || pairs.has(pair)) return;
+    pairs.add(pair);
+    links.push({ ...link, id: link.id && !links.some(l => l.id === link.id) ? link.id : crypto.randomUUID() });
+  });
+  return links.length > 0 ? links : undefined;
+};
+
+// --- Incremental Merge ---
+
+/**
+ * Merges model-proposed additions and moves into an existing map.
+ * Existing node IDs are never changed; colliding IDs in new subtrees are regenerated, and
+ * later parentIds, moves and cross-links using the proposed ID follow the regenerated node.
+ * Additions referencing an unknown parent are attached to the root.
+ */
+export const mergeMindMapUpdate = (data: MindMapData, update: MindMapUpdate): MindMapData => {
+  const root = cloneTree(data.root);
+  const index = new Map<string, MindMapNode>();
+  const parents = new Map<string, string>();
+  indexTree(root, index, parents);
+
+  const now = Date.now();
+  // Proposed ID -> ID actually given to the added node
+  const renamed = new Map<string, string>();
+  const resolve = (id: string) => renamed.get(id) ?? id;
+
+  const adopt = (node: MindMapNode): MindMapNode => {
+    const id = node.id && !index.has(node.id) ? node.id : crypto.randomUUID();
+    if (node.id && node.id !== id) renamed.set(node.id, id);
+    const adopted: MindMapNode = {
+      ...node,
+      id,
+      createdAt: node.createdAt || now,
+      children: [],
+    };
+    index.set(id, adopted);
+    (node.children || []).forEach(child => {
+      const adoptedChild = adopt(child);
+      parents.set(adoptedChild.id, id);
+      adopted.children!.push(adoptedChild);
+    });
+    return adopted;
+  };
+
+  (update.additions || []).forEach(({ parentId, node }) => {
+    if (!node || !node.label) return;
+    const parent = index.get(resolve(parentId)) || root;
+    const adopted = adopt(node);
+    parents.set(adopted.id, parent.id);
+    parent.children = [...(parent.children || []), adopted];
+  });
+
+  (update.moves || []).forEach(move => {
+    const id = resolve(move.id);
+    const newParentId = resolve(move.newParentId);
+    const node = index.get(id);
+    const newParent = index.get(newParentId);
+    const oldParentId = parents.get(id);
+    if (!node || !newParent || !oldParentId || id === root.id) return;
+    if (id === newParentId || isDescendant(id, newParentId, parents)) return;
+
+    const oldParent = index.get(oldParentId)!;
+    oldParent.children = (oldParent.children || []).filter(c => c.id !== id);
+    newParent.children = [...(newParent.children || []), node];
+    parents.set(id, newParentId);
+  });
+
+  const proposedLinks = update.crossLinks?.map(link => link && { ...link, source: resolve(link.source), target: resolve(link.target) });
+  const crossLinks = withCrossLinks(data.crossLinks, proposedLinks, new Set(index.keys()));
+  // The new recording's transcript continues the existing one
+  const transcript = update.transcript?.length ? [...(data.transcript || []), ...update.transcript] : data.transcript;
+  return { ...data, root, ...(crossLinks ? { crossLinks } : {}), ...(transcript ? { transcript } : {}) };
+};
+
+// --- Segment Merge ---
+
+// Regenerates any ID already present in `taken`, registering every ID it keeps and recording
+// original -> final IDs in `ids`
+const withUniqueIds = (node: MindMapNode, taken: Set<string>, ids: Map<string, string>): MindMapNode => {
+  const id = node.id && !taken.has(node.id) ? node.id : crypto.randomUUID();
+  taken.add(id);
+  if (node.id) ids.set(node.id, id);
+  return {
+    ...node,
+    id,
+    children: node.children?.map(child => withUniqueIds(child, taken, ids)),
+  };
+};
+
+const sameLabel = (a: MindMapNode, b: MindMapNode) =>
+  a.label.trim().toLowerCase() === b.label.trim().toLowerCase();
+
+// Folds a node that is merged away into the node that replaces it: details fill a gap, source
+// sentences are combined and the audio span grows to cover both parts of the same recording
+const absorbNode = (target: MindMapNode, source: MindMapNode) => {
+  if (!target.details && source.details) target.details = source.details;
+  if (source.sentenceIds?.length) {
+    target.sentenceIds = Array.from(new Set([...(target.sentenceIds || []), ...source.sentenceIds]));
+  }
+  if (source.audio) {
+    if (!target.audio) {
+      target.audio = source.audio;
+    } else if (target.audio.recordingId === source.audio.recordingId) {
+      target.audio = {
+        ...target.audio,
+        start: Math.min(target.audio.start, source.audio.start),
+        end: Math.max(target.audio.end, source.audio.end),
+      };
+    }
+  }
+};
+
+/**
+ * Combines maps structured from consecutive segments of one long recording.
+ * The first segment's root becomes the root and later roots are folded into it; top-level
+ * branches with the same label are merged, everything else is appended in segment order.
+ * Each segment's cross-links are re-pointed at the nodes its IDs ended up as.
+ */
+export const mergeSegmentMaps = (maps: MindMapData[]): MindMapData => {
+  if (maps.length === 0) throw new Error("No segments to merge");
+
+  const taken = new Set<string>();
+  // Per segment: the segment's own node IDs -> IDs of the nodes they ended up as
+  const segmentIds = maps.map(() => new Map<string, string>());
+  const root = withUniqueIds(maps[0].root, taken, segmentIds[0]);
+  root.children = root.children || [];
+
+  maps.slice(1).forEach((segment, i) => {
+    const ids = segmentIds[i + 1];
+    ids.set(segment.root.id, root.id);
+    absorbNode(root, segment.root);
+    (segment.root.children || []).forEach(branch => {
+      const existing = root.children!.find(c => sameLabel(c, branch));
+      if (existing) {
+        ids.set(branch.id, existing.id);
+        absorbNode(existing, branch);
+        existing.children = [...(existing.children || []), ...(branch.children || []).map(child => withUniqueIds(child, taken, ids))];
+      } else {
+        root.children!.push(withUniqueIds(branch, taken, ids));
+      }
+    });
+  });
+
+  // Links to IDs that are not part of their own segment cannot be resolved and are dropped
+  const crossLinks = maps.reduce<CrossLink[] | undefined>((links, segment, i) => withCrossLinks(
+    links,
+    segment.crossLinks?.map(link => ({ ...link, source: segmentIds[i].get(link.source) || '', target: segmentIds[i].get(link.target) || '' })),
+    taken
+  ), undefined);
+  const transcript = maps.flatMap(segment => segment.transcript || []);
+  return { ...maps[0], root, ...(crossLinks ? { crossLinks } : {}), ...(transcript.length > 0 ? { transcript } : {}) };
+};
+
+// --- Structural Edits ---
+// Pure operations: each returns a new map, or the original object when the edit is not allowed.
+
+export const findNode = (root: MindMapNode, id: string): MindMapNode | null => {
+  if (root.id === id) return root;
+  for (const child of root.children || []) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findParent = (root: MindMapNode, id: string): { parent: MindMapNode; index: number } | null => {
+  const children = root.children || [];
+  const index = children.findIndex(c => c.id === id);
+  if (index >= 0) return { parent: root, index };
+  for (const child of children) {
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Copies only the path from the root to the patched node; untouched branches are shared
+export const updateNode = (data: MindMapData, id: string, patch: Partial<MindMapNode>): MindMapData => {
+  const visit = (node: MindMapNode): MindMapNode => {
+    if (node.id === id) return { ...node, ...patch, id: node.id, children: node.children };
+    if (!node.children) return node;
+    const children = node.children.map(visit);
+    return children.some((child, i) => child !== node.children![i]) ? { ...node, children } : node;
+  };
+  const root = visit(data.root);
+  return root === data.root ? data : { ...data, root };
+};
+
+// Drops cross-links that point at removed nodes
+const withoutCrossLinksTo = (data: MindMapData, removedIds: Set<string>): MindMapData => {
+  if (!data.crossLinks) return data;
+  const crossLinks = data.crossLinks.filter(l => !removedIds.has(l.source) && !removedIds.has(l.target));
+  const { crossLinks: _, ...rest } = data;
+  return crossLinks.length > 0 ? { ...rest, crossLinks } : rest;
+};
+
+export const collectSubtreeIds = (node: MindMapNode): string[] => [
+  node.id,
+  ...(node.children || []).flatMap(collectSubtreeIds),
+];
+
+// Copies a branch with fresh IDs so it can be pasted any number of times
+export const withFreshIds = (node: MindMapNode): MindMapNode => ({
+  ...node,
+  id: crypto.randomUUID(),
+  children: node.children?.map(withFreshIds),
+});
+
+export const deleteSubtree = (data: MindMapData, id: string): MindMapData => {
+  if (id === data.root.id) return data;
+  const root = cloneTree(data.root);
+  const location = findParent(root, id);
+  if (!location) return data;
+  const [removed] = location.parent.children!.splice(location.index, 1);
+  return withoutCrossLinksTo({ ...data, root }, new Set(collectSubtreeIds(removed)));
+};
+
+// Removes a single node and moves its children into its place under the former parent
+export const deleteAndPromote = (data: MindMapData, id: string): MindMapData => {
+  if (id === data.root.id) return data;
+  const root = cloneTree(data.root);
+  const location = findParent(root, id);
+  if (!location) return data;
+  const node = location.parent.children![location.index];
+  location.parent.children!.splice(location.index, 1, ...(node.children || []));
+  return withoutCrossLinksTo({ ...data, root }, new Set([id]));
+};
+
+/**
+ * Moves a branch under a new parent at `index` (appended when omitted).
+ * Moving the root, or a node into its own subtree, is rejected.
+ */
+export const moveNode = (data: MindMapData, id: string, newParentId: string, index?: number): MindMapData => {
+  if (id === data.root.id || id === newParentId) return data;
+  const root = cloneTree(data.root);
+  const location = findParent(root, id);
+  const node = location && location.parent.children![location.index];
+  if (!location || !node || findNode(node, newParentId)) return data;
+  const newParent = findNode(root, newParentId);
+  if (!newParent) return data;
+
+  location.parent.children!.splice(location.index, 1);
+  newParent.children = newParent.children || [];
+  delete newParent.collapsed;
+  const target = index === undefined ? newParent.children.length : Math.max(0, Math.min(index, newParent.children.length));
+  newParent.children.splice(target, 0, node);
+  return { ...data, root };
+};
+
+// Shifts a node among its siblings by `offset` positions
+export const reorderSibling = (data: MindMapData, id: string, offset: number): MindMapData => {
+  const location = findParent(data.root, id);
+  if (!location) return data;
+  const target = location.index + offset;
+  if (target < 0 || target >= location.parent.children!.length) return data;
+  return moveNode(data, id, location.parent.id, target);
+};
+
+export const insertSubtree = (data: MindMapData, parentId: string, node: MindMapNode, index?: number): MindMapData => {
+  const root = cloneTree(data.root);
+  const parent = findNode(root, parentId);
+  if (!parent) return data;
+  parent.children = parent.children || [];
+  // Inserting into a folded branch unfolds it so the new node is visible
+  delete parent.collapsed;
+  const target = index === undefined ? parent.children.length : Math.max(0, Math.min(index, parent.children.length));
+  parent.children.splice(target, 0, cloneTree(node));
+  return { ...data, root };
+};
+
+// --- Folding ---
+
+// True when any branch in the subtree is folded
+export const hasCollapsed = (node: MindMapNode): boolean =>
+  !!node.collapsed || (node.children || []).some(hasCollapsed);
+
+export const toggleCollapsed = (data: MindMapData, id: string): MindMapData => {
+  const node = findNode(data.root, id);
+  if (!node || !node.children || node.children.length === 0) return data;
+  return updateNode(data, id, { collapsed: !node.collapsed });
+};
+
+/**
+ * Shows `level` levels below the root: shallower branches are expanded, deeper ones folded.
+ * Pass Infinity to expand everything.
+ */
+export const expandToLevel = (data: MindMapData, level: number): MindMapData => {
+  const visit = (node: MindMapNode, depth: number): MindMapNode => {
+    const { collapsed, ...rest } = node;
+    const hasChildren = !!node.children && node.children.length > 0;
+    return {
+      ...rest,
+      ...(hasChildren && depth >= level ? { collapsed: true } : {}),
+      children: node.children?.map(child => visit(child, depth + 1)),
+    };
+  };
+  return { ...data, root: visit(data.root, 0) };
+};
+
+// Expands every collapsed ancestor of a node so it becomes visible
+export const revealNode = (data: MindMapData, id: string): MindMapData => {
+  let result = data;
+  let location = findParent(data.root, id);
+  while (location) {
+    if (location.parent.collapsed) result = updateNode(result, location.parent.id, { collapsed: false });
+    location = findParent(data.root, location.parent.id);
+  }
+  return result;
+};
+
+// --- Outline Moves ---
+
+// Makes a node the last child of its previous sibling
+export const indentNode = (data: MindMapData, id: string): MindMapData => {
+  const location = findParent(data.root, id);
+  if (!location || location.index === 0) return data;
+  return moveNode(data, id, location.parent.children![location.index - 1].id);
+};
+
+// Moves a node up one level, placing it right after its former parent
+export const outdentNode = (data: MindMapData, id: string): MindMapData => {
+  const location = findParent(data.root, id);
+  if (!location) return data;
+  const parentLocation = findParent(data.root, location.parent.id);
+  if (!parentLocation) return data;
+  return moveNode(data, id, parentLocation.parent.id, parentLocation.index + 1);
+};
+
+// --- Cross-Links ---
+
+export const addCrossLink = (data: MindMapData, source: string, target: string, label?: string): MindMapData => {
+  if (source === target || !findNode(data.root, source) || !findNode(data.root, target)) return data;
+  const crossLinks = withCrossLinks(data.crossLinks, [{ id: crypto.randomUUID(), source, target, ...(label ? { label } : {}) }], new Set([source, target]));
+  return crossLinks === data.crossLinks ? data : { ...data, crossLinks };
+};
+
+export const updateCrossLink = (data: MindMapData, id: string, patch: Partial<Omit<CrossLink, 'id'>>): MindMapData => {
+  if (!data.crossLinks?.some(l => l.id === id)) return data;
+  return { ...data, crossLinks: data.crossLinks.map(l => (l.id === id ? { ...l, ...patch } : l)) };
+};
+
+export const removeCrossLink = (data: MindMapData, id: string): MindMapData => {
+  if (!data.crossLinks?.some(l => l.id === id)) return data;
+  const crossLinks = data.crossLinks.filter(l => l.id !== id);
+  const { crossLinks: _, ...rest } = data;
+  return crossLinks.length > 0 ? { ...rest, crossLinks } : rest;
+};
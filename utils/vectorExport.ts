@@ -0,0 +1,286 @@
+import { Node, Edge, Position } from 'reactflow';
+import { DEFAULT_NODE_SIZE } from './graphLayout';
+
+// --- Vector Export (SVG / PDF) ---
+// Drawn from the laid-out node positions rather than the DOM, so the whole map is exported
+// regardless of the current viewport or zoom.
+
+const PADDING = 40;
+const NODE_PADDING = 12;
+const LINE_HEIGHT = 1.3;
+
+const FONT_SIZES: Record<string, number> = { sm: 12, md: 14, lg: 18 };
+const FONT_FAMILIES: Record<string, string> = {
+  sans: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", "PingFang SC", sans-serif',
+  serif: 'ui-serif, Georgia, "Songti SC", serif',
+  mono: 'ui-monospace, Menlo, Consolas, monospace',
+};
+
+export interface SvgExport {
+  // Inner markup in map coordinates, offset so the bounding box starts at (0, 0)
+  content: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough text metrics: CJK glyphs are about one em wide, Latin about half
+const measureText = (text: string, fontSize: number) =>
+  Array.from(text).reduce((w, ch) => w + (/[⺀-￯]/.test(ch) ? fontSize : fontSize * 0.56), 0);
+
+const wrapText = (text: string, fontSize: number, maxWidth: number, maxLines = Infinity): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    // Split into words, keeping CJK characters as individual breakable units
+    const tokens = paragraph.match(/[⺀-￯]|[^\s⺀-￯]+|\s+/g) || [''];
+    let line = '';
+    tokens.forEach(token => {
+      const candidate = line + token;
+      if (line.trim() && measureText(candidate.trimEnd(), fontSize) > maxWidth) {
+        lines.push(line.trim());
+        line = token.trimStart();
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line.trim());
+  });
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/.$/, '')}…`;
+    return kept;
+  }
+  return lines;
+};
+
+interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  markup: string;
+  sourcePosition: Position;
+  targetPosition: Position;
+}
+
+const renderNode = (node: Node): NodeBox => {
+  const data = node.data || {};
+  const style = data.style || {};
+  const width = node.width || DEFAULT_NODE_SIZE.width;
+  const fontSize = FONT_SIZES[style.fontSize] || FONT_SIZES.md;
+  const fontFamily = FONT_FAMILIES[style.fontFamily] || FONT_FAMILIES.sans;
+  const textWidth = width - NODE_PADDING * 2;
+  const cx = width / 2;
+
+  const parts: string[] = [];
+  let y = NODE_PADDING;
+
+  const addLines = (lines: string[], size: number, attrs: string) => {
+    lines.forEach(line => {
+      y += size;
+      parts.push(`<text x="${cx}" y="${y}" font-size="${size}" text-anchor="middle" ${attrs}>${escapeXml(line)}</text>`);
+      y += size * (LINE_HEIGHT - 1);
+    });
+  };
+
+  addLines([(data.category || 'Node').toUpperCase()], 10, 'font-weight="700" fill="#64748b" letter-spacing="1"');
+  y += 4;
+  addLines(wrapText(data.label || '', fontSize, textWidth), fontSize, 'font-weight="600" fill="#1e293b"');
+
+  if (data.details) {
+    y += 6;
+    parts.push(`<line x1="${NODE_PADDING}" y1="${y}" x2="${width - NODE_PADDING}" y2="${y}" stroke="#94a3b8" stroke-opacity="0.3"/>`);
+    y += 4;
+    addLines(wrapText(data.details, 12, textWidth, 6), 12, 'font-style="italic" fill="#475569"');
+  }
+
+  (data.links || []).forEach((link: { title: string; url: string }) => {
+    y += 4;
+    const title = wrapText(link.title, 10, textWidth, 1)[0];
+    parts.push(`<a href="${escapeXml(link.url)}"><text x="${cx}" y="${y + 10}" font-size="10" text-anchor="middle" fill="#2563eb">${escapeXml(title)}</text></a>`);
+    y += 10 * LINE_HEIGHT;
+  });
+
+  const height = Math.max(node.height || 0, y + NODE_PADDING, DEFAULT_NODE_SIZE.height);
+  const radius = style.shape === 'square' ? 0 : style.shape === 'circle' ? Math.min(width, height) / 2 : 12;
+  const background = `<rect width="${width}" height="${height}" rx="${radius}" fill="${escapeXml(style.backgroundColor || '#ffffff')}" stroke="#cbd5e1"/>`;
+  // Center the content vertically when the measured box is taller than the drawn text
+  const offset = Math.max(0, (height - (y + NODE_PADDING)) / 2);
+
+  return {
+    x: node.position.x,
+    y: node.position.y,
+    width,
+    height,
+    markup: `${background}<g transform="translate(0 ${offset})" font-family="${escapeXml(fontFamily)}">${parts.join('')}</g>`,
+    sourcePosition: node.sourcePosition || Position.Right,
+    targetPosition: node.targetPosition || Position.Left,
+  };
+};
+
+const handlePoint = (box: NodeBox, side: Position) => {
+  switch (side) {
+    case Position.Left: return { x: box.x, y: box.y + box.height / 2 };
+    case Position.Right: return { x: box.x + box.width, y: box.y + box.height / 2 };
+    case Position.Top: return { x: box.x + box.width / 2, y: box.y };
+    default: return { x: box.x + box.width / 2, y: box.y + box.height };
+  }
+};
+
+// Same routing as React Flow's smoothstep edge, between the handles the layout chose
+const edgePath = (source: NodeBox, target: NodeBox, sourceSide: Position): string => {
+  const { x: sx, y: sy } = handlePoint(source, sourceSide);
+  const { x: tx, y: ty } = handlePoint(target, target.targetPosition);
+
+  // Org chart stacks: down from the parent, then across into the child's left side
+  if (sourceSide === Position.Bottom && target.targetPosition === Position.Left) return `M ${sx} ${sy} V ${ty} H ${tx}`;
+  if (sourceSide === Position.Bottom || sourceSide === Position.Top) {
+    const midY = (sy + ty) / 2;
+    return `M ${sx} ${sy} V ${midY} H ${tx} V ${ty}`;
+  }
+
+  const step = sourceSide === Position.Left ? -20 : 20;
+  const forward = step > 0 ? tx > sx : tx < sx;
+  if (forward) {
+    const midX = (sx + tx) / 2;
+    return `M ${sx} ${sy} H ${midX} V ${ty} H ${tx}`;
+  }
+  // Target behind the source (radial layouts): loop around with a short horizontal stub on each side
+  return `M ${sx} ${sy} H ${sx + step} V ${(sy + ty) / 2} H ${tx - step} V ${ty} H ${tx}`;
+};
+
+// Relationship edges: a curve between the facing sides of the two boxes, with an arrowhead and label
+const crossLinkMarkup = (edge: Edge, source: NodeBox, target: NodeBox): string => {
+  const stroke = escapeXml((edge.style?.stroke as string) || '#a855f7');
+  const forward = target.x + target.width / 2 >= source.x + source.width / 2;
+  const sx = forward ? source.x + source.width : source.x;
+  const sy = source.y + source.height / 2;
+  const tx = forward ? target.x : target.x + target.width;
+  const ty = target.y + target.height / 2;
+  const bend = Math.max(40, Math.abs(tx - sx) / 2) * (forward ? 1 : -1);
+  const dash = edge.style?.strokeDasharray ? ` stroke-dasharray="${edge.style.strokeDasharray}"` : '';
+  const arrowX = tx - (forward ? 8 : -8);
+  const arrow = `<path d="M ${tx} ${ty} L ${arrowX} ${ty - 4} L ${arrowX} ${ty + 4} Z" fill="${stroke}"/>`;
+  const label = typeof edge.label === 'string' && edge.label
+    ? `<text x="${(sx + tx) / 2}" y="${(sy + ty) / 2 - 4}" font-size="11" font-weight="600" text-anchor="middle" fill="${stroke}" stroke="#ffffff" stroke-width="3" paint-order="stroke">${escapeXml(edge.label)}</text>`
+    : '';
+  return `<path d="M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${arrowX} ${ty}" fill="none" stroke="${stroke}" stroke-width="2"${dash}/>${arrow}${label}`;
+};
+
+export const generateSvgExport = (nodes: Node[], edges: Edge[]): SvgExport => {
+  const boxes = new Map(nodes.map(n => [n.id, renderNode(n)]));
+  if (boxes.size === 0) return { content: '', width: 0, height: 0 };
+
+  const all = Array.from(boxes.values());
+  const minX = Math.min(...all.map(b => b.x)) - PADDING;
+  const minY = Math.min(...all.map(b => b.y)) - PADDING;
+  const maxX = Math.max(...all.map(b => b.x + b.width)) + PADDING;
+  const maxY = Math.max(...all.map(b => b.y + b.height)) + PADDING;
+
+  const edgeMarkup = edges
+    .map(e => {
+      const source = boxes.get(e.source);
+      const target = boxes.get(e.target);
+      if (!source || !target) return '';
+      if (e.data?.crossLinkId) return crossLinkMarkup(e, source, target);
+      const stroke = (e.style?.stroke as string) || '#94a3b8';
+      const strokeWidth = e.style?.strokeWidth || 2;
+      const sourceSide = e.sourceHandle === 'left' ? Position.Left : source.sourcePosition;
+      return `<path d="${edgePath(source, target, sourceSide)}" fill="none" stroke="${escapeXml(stroke)}" stroke-width="${strokeWidth}" stroke-linejoin="round"/>`;
+    })
+    .join('\n');
+
+  const nodeMarkup = all
+    .map(b => `<g transform="translate(${b.x} ${b.y})">${b.markup}</g>`)
+    .join('\n');
+
+  return {
+    content: `<g transform="translate(${-minX} ${-minY})">\n${edgeMarkup}\n${nodeMarkup}\n</g>`,
+    width: Math.ceil(maxX - minX),
+    height: Math.ceil(maxY - minY),
+  };
+};
+
+// Standalone SVG document, optionally cropped to a region (used for PDF page tiles)
+export const toSvgDocument = (
+  svg: SvgExport,
+  viewBox: { x: number; y: number; width: number; height: number } = { x: 0, y: 0, width: svg.width, height: svg.height }
+): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${viewBox.width}" height="${viewBox.height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">
+<rect x="${viewBox.x}" y="${viewBox.y}" width="${viewBox.width}" height="${viewBox.height}" fill="#f8fafc"/>
+${svg.content}
+</svg>`;
+
+// --- PDF (via the browser's print dialog) ---
+
+export type PdfLayout = 'single' | 'pages';
+
+// A4 landscape at 96 DPI, minus 10mm margins
+const PAGE = { width: 1047, height: 718 };
+const TILE_OVERLAP = 24;
+
+const tileViewBoxes = (svg: SvgExport) => {
+  const stepX = PAGE.width - TILE_OVERLAP;
+  const stepY = PAGE.height - TILE_OVERLAP;
+  const columns = Math.max(1, Math.ceil((svg.width - TILE_OVERLAP) / stepX));
+  const rows = Math.max(1, Math.ceil((svg.height - TILE_OVERLAP) / stepY));
+  const boxes = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      boxes.push({ x: column * stepX, y: row * stepY, width: PAGE.width, height: PAGE.height });
+    }
+  }
+  return boxes;
+};
+
+/**
+ * Prints the map to PDF through a hidden iframe. `single` puts the whole map on one page sized
+ * to fit it; `pages` tiles it at full size across A4 landscape pages with a small overlap for
+ * assembling printed handouts.
+ */
+export const printSvgAsPdf = (svg: SvgExport, title: string, layout: PdfLayout) => {
+  const pages = layout === 'single'
+    ? [toSvgDocument(svg)]
+    : tileViewBoxes(svg).map(box => toSvgDocument(svg, box));
+
+  const pageRule = layout === 'single'
+    ? `@page { size: ${svg.width}px ${svg.height}px; margin: 0; }`
+    : '@page { size: A4 landscape; margin: 10mm; }';
+
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeXml(title)}</title>
+<style>
+${pageRule}
+html, body { margin: 0; padding: 0; }
+.page { break-after: page; page-break-after: always; }
+.page:last-child { break-after: auto; page-break-after: auto; }
+.page svg { display: block; max-width: 100%; height: auto; }
+</style></head>
+<body>${pages.map(p => `<div class="page">${p}</div>`).join('')}</body></html>`;
+
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    document.body.removeChild(iframe);
+    alert("Could not open the print dialog.");
+    return;
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+
+  // Remove the frame once printing has finished (or was cancelled)
+  frameWindow.onafterprint = () => setTimeout(() => iframe.remove(), 0);
+  setTimeout(() => {
+    frameWindow.focus();
+    frameWindow.print();
+  }, 100);
+};
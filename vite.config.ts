@@ -12,12 +12,25 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MAP_PROVIDER': JSON.stringify(env.MAP_PROVIDER),
+        'process.env.MAP_SCHEMA_DEPTH': JSON.stringify(env.MAP_SCHEMA_DEPTH)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: {
+        rollupOptions: {
+          output: {
+            // Keep rarely changing libraries out of the app chunk so they stay cached between releases
+            manualChunks: (id) => {
+              if (/node_modules\/(react|react-dom|scheduler)\//.test(id)) return 'react';
+              if (/node_modules\/(reactflow|@reactflow|d3-[^/]+|dagre|graphlib|lodash|zustand|classcat)\//.test(id)) return 'canvas';
+            }
+          }
+        }
       }
     };
 });